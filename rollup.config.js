@@ -33,7 +33,7 @@ export default [
   {
     input: 'src/index.ts',
     output: {
-      file: 'lib/index.js',
+      file: 'lib/index.cjs',
       format: 'cjs',
       sourcemap: true,
       exports: 'named',
@@ -74,4 +74,57 @@ export default [
       production && terser(),
     ],
   },
+  // Analysis worker (classic script so it can be started via importScripts)
+  {
+    input: 'src/worker.ts',
+    output: {
+      file: 'lib/worker.js',
+      format: 'iife',
+      name: 'BlurryCheckWorker',
+      sourcemap: true,
+    },
+    plugins: [
+      resolve({
+        browser: true,
+        preferBuiltins: false,
+      }),
+      commonjs(),
+      typescript({
+        tsconfig: './tsconfig.json',
+        declaration: false,
+      }),
+      production && terser(),
+    ],
+  },
+  // Node.js entry (decodes with the optional `canvas` peer)
+  {
+    input: 'src/node.ts',
+    output: [
+      {
+        file: 'lib/node.mjs',
+        format: 'es',
+        sourcemap: true,
+      },
+      {
+        file: 'lib/node.cjs',
+        format: 'cjs',
+        sourcemap: true,
+        exports: 'named',
+      },
+    ],
+    external: [/^node:/],
+    plugins: [
+      resolve({
+        preferBuiltins: true,
+      }),
+      commonjs(),
+      typescript({
+        tsconfig: './tsconfig.json',
+        declaration: true,
+        declarationDir: './lib',
+        rootDir: './src',
+      }),
+      production && terser(),
+    ],
+  },
 ];
@@ -1,7 +1,10 @@
 import { BlurDetector } from '../blur-detector';
-import { BlurryCheck, validateImage } from '../index';
-import { BlurDetectionConfig } from '../types';
+import { Filters } from '../filters';
+import { SharpnessMetrics } from '../sharpness-metrics';
+import { BlurryCheck, validateImage, BLUR_TYPE_RECOMMENDATIONS } from '../index';
+import { BlurDetectionConfig, RegionOfInterest } from '../types';
 import { BLANK_NON_WHITE_RATIO_MAX, BLANK_CONTRAST_MAX } from '../constants';
+import { MODE_CONFIG, ValidationMode, resolveMode } from '../mode-config';
 
 const mockImageData = new ImageData(100, 100);
 mockImageData.data.fill(128);
@@ -32,6 +35,23 @@ function createSharpDocumentImageData(): ImageData {
   return new ImageData(data, width, height);
 }
 
+function createSmallDocumentImageData(factor = 1): ImageData {
+  const width = 200 * factor;
+  const height = 150 * factor;
+  const data = new Uint8ClampedArray(width * height * 4).fill(255);
+
+  for (let y = 20 * factor; y < 130 * factor; y += 16 * factor) {
+    for (let x = 22 * factor; x < 178 * factor; x++) {
+      for (let thickness = 0; thickness < 3 * factor; thickness++) {
+        const index = ((y + thickness) * width + x) * 4;
+        data[index] = data[index + 1] = data[index + 2] = 0;
+      }
+    }
+  }
+
+  return new ImageData(data, width, height);
+}
+
 function createDimDocumentImageData(): ImageData {
   const width = 800;
   const height = 600;
@@ -122,6 +142,90 @@ function createGlareDocumentImageData(): ImageData {
   return new ImageData(data, width, height);
 }
 
+function createCardOnDarkTableImageData(): ImageData {
+  const width = 1200;
+  const height = 900;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = data[i + 1] = data[i + 2] = 20;
+    data[i + 3] = 255;
+  }
+  const card = createSharpDocumentImageData();
+  for (let y = 0; y < card.height; y++) {
+    const start = ((150 + y) * width + 200) * 4;
+    data.set(card.data.subarray(y * card.width * 4, (y + 1) * card.width * 4), start);
+  }
+  return new ImageData(data, width, height);
+}
+
+function upscale(imageData: ImageData, factor: number): ImageData {
+  const width = imageData.width * factor;
+  const height = imageData.height * factor;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const src = (Math.floor(y / factor) * imageData.width + Math.floor(x / factor)) * 4;
+      data.set(imageData.data.subarray(src, src + 4), (y * width + x) * 4);
+    }
+  }
+  return new ImageData(data, width, height);
+}
+
+// Separable box blur; same result as a size x size kernel through Filters.convolve, much faster.
+function boxBlur(imageData: ImageData, size: number): ImageData {
+  const { width, height } = imageData;
+  const half = Math.floor(size / 2);
+  const pass = (src: ArrayLike<number>, horizontal: boolean) => {
+    const out = new Float32Array(src.length);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        for (let c = 0; c < 3; c++) {
+          let sum = 0;
+          for (let k = -half; k <= half; k++) {
+            const sx = horizontal ? Math.min(width - 1, Math.max(0, x + k)) : x;
+            const sy = horizontal ? y : Math.min(height - 1, Math.max(0, y + k));
+            sum += src[(sy * width + sx) * 4 + c];
+          }
+          out[(y * width + x) * 4 + c] = sum / size;
+        }
+      }
+    }
+    return out;
+  };
+  const data = new Uint8ClampedArray(pass(pass(imageData.data, true), false));
+  for (let i = 3; i < data.length; i += 4) data[i] = 255;
+  return new ImageData(data, width, height);
+}
+
+function createBlockTextureImageData(): ImageData {
+  const size = 192;
+  const block = 8;
+  const data = new Uint8ClampedArray(size * size * 4);
+  let seed = 7;
+  const values = Array.from({ length: (size / block) ** 2 }, () => {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    return Math.round((seed / 0x7fffffff) * 255);
+  });
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const v = values[Math.floor(y / block) * (size / block) + Math.floor(x / block)];
+      const index = (y * size + x) * 4;
+      data[index] = data[index + 1] = data[index + 2] = v;
+      data[index + 3] = 255;
+    }
+  }
+  return new ImageData(data, size, size);
+}
+
+function motionBlur(imageData: ImageData, length: number, direction: 'horizontal' | 'diagonal') {
+  const weights = new Array(length * length).fill(0);
+  const mid = (length - 1) / 2;
+  for (let i = 0; i < length; i++) {
+    weights[direction === 'horizontal' ? mid * length + i : i * length + i] = 1 / length;
+  }
+  return Filters.convolve(imageData, weights, true);
+}
+
 const mockCanvas = {
   getContext: jest.fn(() => ({
     createImageData: jest.fn((width: number, height: number) => new ImageData(width, height)),
@@ -222,6 +326,41 @@ describe('BlurDetector', () => {
       expect(result).toHaveProperty('confidence');
       expect(result.method).toBe('edge');
     });
+
+    it('decodes Blob input through createImageBitmap when available', async () => {
+      const close = jest.fn();
+      (global as any).createImageBitmap = jest.fn(async () => ({ width: 120, height: 80, close }));
+      try {
+        const blob = new Blob([new Uint8Array([0x89, 0x50, 0x4e, 0x47])], { type: 'image/png' });
+        const result = await validateImage(blob, { checks: ['resolution'] });
+        expect((global as any).createImageBitmap).toHaveBeenCalledWith(blob, {
+          imageOrientation: 'from-image',
+        });
+        expect(close).toHaveBeenCalled();
+        expect(result.width).toBe(120);
+        expect(result.height).toBe(80);
+      } finally {
+        delete (global as any).createImageBitmap;
+      }
+    });
+
+    it('accepts ImageBitmap input', async () => {
+      class MockImageBitmap {
+        width = 64;
+        height = 48;
+        close() {}
+      }
+      (global as any).ImageBitmap = MockImageBitmap;
+      try {
+        const result = await validateImage(new MockImageBitmap() as unknown as ImageBitmap, {
+          checks: ['resolution'],
+        });
+        expect(result.width).toBe(64);
+        expect(result.height).toBe(48);
+      } finally {
+        delete (global as any).ImageBitmap;
+      }
+    });
   });
 
   describe('isBlurry', () => {
@@ -240,6 +379,324 @@ describe('BlurDetector', () => {
       expect(result.metrics.edgeAnalysis).toBeDefined();
       expect(result.metrics.laplacianVariance).toBeUndefined();
     });
+
+    it('reports horizontal and vertical edge analysis separately', async () => {
+      const result = await detector.analyzeImage(createSmallDocumentImageData());
+      const edge = result.metrics.edgeAnalysis!;
+
+      expect(edge.horizontal).toBeDefined();
+      expect(edge.vertical).toBeDefined();
+      expect(edge.combined!.numEdges).toBe(edge.horizontal!.numEdges + edge.vertical!.numEdges);
+      expect(edge.vertical!.numEdges).toBeGreaterThan(edge.horizontal!.numEdges);
+      expect(edge.vertical!.edgeStrength).toBeGreaterThan(edge.horizontal!.edgeStrength);
+    });
+
+    it('keeps the top-level edge fields on the horizontal row scan', async () => {
+      const result = await detector.analyzeImage(createSmallDocumentImageData());
+      const edge = result.metrics.edgeAnalysis!;
+
+      expect(edge).toMatchObject(
+        (({ numEdges, avgEdgeWidth, avgEdgeWidthPerc }) => ({
+          numEdges,
+          avgEdgeWidth,
+          avgEdgeWidthPerc,
+        }))(edge.horizontal!),
+      );
+      expect(edge.avgEdgeWidthPerc).toBeCloseTo((edge.avgEdgeWidth / edge.width) * 100);
+      expect(edge.combined!.avgEdgeWidthPerc).toBe(
+        Math.max(edge.horizontal!.avgEdgeWidthPerc, edge.vertical!.avgEdgeWidthPerc),
+      );
+    });
+
+    it('catches vertical blur on ruled-line content', async () => {
+      const weights = new Array(81).fill(0);
+      for (let i = 0; i < 9; i++) weights[i * 9 + 4] = 1 / 9;
+      const sharp = await detector.analyzeImage(createSmallDocumentImageData());
+      const smeared = await detector.analyzeImage(
+        Filters.convolve(createSmallDocumentImageData(), weights, true),
+      );
+
+      expect(smeared.metrics.edgeAnalysis!.vertical!.avgEdgeWidth).toBeGreaterThan(
+        sharp.metrics.edgeAnalysis!.vertical!.avgEdgeWidth,
+      );
+      expect(smeared.metrics.edgeAnalysis!.combined!.avgEdgeWidthPerc).toBeGreaterThan(
+        sharp.metrics.edgeAnalysis!.combined!.avgEdgeWidthPerc,
+      );
+    });
+  });
+
+  describe('resolution normalization', () => {
+    it('leaves images at or below the working size untouched', async () => {
+      const normalized = new BlurDetector({ method: 'edge', workingSize: 200 });
+      const result = await normalized.analyzeImage(createSmallDocumentImageData());
+      expect(result.metrics.normalization).toBeUndefined();
+      expect(result.metrics.edgeAnalysis).toMatchObject({ width: 200, height: 150 });
+    });
+
+    it('scores the same document identically at different capture sizes', async () => {
+      const normalized = new BlurDetector({ method: 'both', workingSize: 200 });
+      const small = await normalized.analyzeImage(createSmallDocumentImageData());
+      const large = await normalized.analyzeImage(upscale(createSmallDocumentImageData(), 2));
+
+      expect(large.metrics.normalization).toMatchObject({
+        workingSize: 200,
+        scale: 0.5,
+        originalWidth: 400,
+        originalHeight: 300,
+        workingWidth: 200,
+        workingHeight: 150,
+      });
+      expect(large.metrics.normalization?.estimatedRawAvgEdgeWidth).toBeCloseTo(
+        large.metrics.edgeAnalysis!.avgEdgeWidth * 2,
+      );
+      expect(large.metrics.edgeAnalysis?.avgEdgeWidthPerc).toBeCloseTo(
+        small.metrics.edgeAnalysis!.avgEdgeWidthPerc,
+      );
+      expect(large.metrics.laplacianVariance).toBeCloseTo(small.metrics.laplacianVariance!);
+      expect(large.isBlurry).toBe(small.isBlurry);
+    });
+
+    it('analyses large images at full resolution by default in every mode', async () => {
+      for (const mode of Object.keys(MODE_CONFIG) as ValidationMode[])
+        expect(resolveMode(mode).workingSize).toBe(0);
+      // Wider than the 1024 px profile photos used to be resampled to.
+      const large = createSmallDocumentImageData(6);
+      const result = await validateImage(large, { mode: 'profile-photo', checks: ['blur'] });
+      const baseline = await new BlurryCheck().analyzeImage(large);
+      expect(result.blurAnalysis?.metrics.normalization).toBeUndefined();
+      expect(result.blurAnalysis?.metrics.edgeAnalysis).toMatchObject({ width: 1200, height: 900 });
+      expect(result.blurAnalysis).toEqual(baseline);
+    });
+
+    it('holds the thresholds for a document captured at twice the working size', async () => {
+      const normalized = new BlurDetector({ method: 'both', workingSize: 200 });
+      for (const [blur, blurry] of [
+        [5, false],
+        [9, true],
+      ] as const) {
+        const small = await normalized.analyzeImage(boxBlur(createSmallDocumentImageData(), blur));
+        const large = await normalized.analyzeImage(
+          boxBlur(createSmallDocumentImageData(2), blur * 2 + 1),
+        );
+        expect(small.isBlurry).toBe(blurry);
+        expect(large.isBlurry).toBe(blurry);
+      }
+    });
+
+    it('applies a configured working size in upload validation', async () => {
+      const result = await validateImage(upscale(createSmallDocumentImageData(), 6), {
+        mode: 'profile-photo',
+        workingSize: 1024,
+        checks: ['resolution', 'blur'],
+      });
+      expect(result.width).toBe(1200);
+      expect(result.checks.resolution?.details).toMatchObject({ width: 1200, height: 900 });
+      expect(result.debugMetrics?.workingSize).toBe(1024);
+      expect(result.blurAnalysis?.metrics.normalization).toMatchObject({
+        workingWidth: 1024,
+        workingHeight: 768,
+      });
+    });
+  });
+
+  describe('laplacian method', () => {
+    it('computes Laplacian variance in pure JS without loading OpenCV', async () => {
+      const openCvSpy = jest.spyOn(BlurDetector.prototype as any, 'detectBlurOpenCV');
+      const lapDetector = new BlurDetector({ method: 'laplacian', laplacianThreshold: 150 });
+      const result = await lapDetector.analyzeImage(createSharpDocumentImageData());
+
+      expect(openCvSpy).not.toHaveBeenCalled();
+      expect(result.method).toBe('laplacian');
+      expect(result.metrics.laplacianVariance).toBeGreaterThan(150);
+      expect(result.isBlurry).toBe(false);
+      openCvSpy.mockRestore();
+    });
+
+    it('matches the OpenCV 3x3 Laplacian on a known pattern', () => {
+      const image = new ImageData(3, 3);
+      image.data.fill(0);
+      for (let i = 3; i < image.data.length; i += 4) image.data[i] = 255;
+      const center = 4 * 4;
+      image.data[center] = image.data[center + 1] = image.data[center + 2] = 100;
+
+      // BORDER_REFLECT_101 mirrors the centre back onto each edge pixel, doubling its response:
+      // -400 at the centre, 200 at its four neighbours, 0 at the corners.
+      const mean = (-400 + 4 * 200) / 9;
+      const expected = (400 * 400 + 4 * 200 * 200) / 9 - mean * mean;
+      expect(Filters.laplacianVariance(image)).toBeCloseTo(expected, 6);
+    });
+
+    it('reports zero variance for a flat image', async () => {
+      const lapDetector = new BlurDetector({ method: 'laplacian' });
+      const result = await lapDetector.analyzeImage(mockImageData as ImageData);
+
+      expect(result.metrics.laplacianVariance).toBe(0);
+      expect(result.isBlurry).toBe(true);
+    });
+
+    it('falls back to the JS backend when OpenCV cannot load', async () => {
+      const openCvSpy = jest
+        .spyOn(BlurDetector.prototype as any, 'detectBlurOpenCV')
+        .mockRejectedValue(new Error('Failed to load OpenCV'));
+      const lapDetector = new BlurDetector({ method: 'both', laplacianBackend: 'opencv' });
+      const result = await lapDetector.analyzeImage(createSmallDocumentImageData());
+
+      expect(openCvSpy).toHaveBeenCalled();
+      expect(result.method).toBe('both');
+      expect(result.metrics.laplacianVariance).toBe(
+        Filters.laplacianVariance(createSmallDocumentImageData()),
+      );
+      openCvSpy.mockRestore();
+    });
+  });
+
+  describe('sharpness metrics', () => {
+    const sharp = createSmallDocumentImageData();
+    const blurred = boxBlur(boxBlur(sharp, 9), 9);
+
+    it.each([
+      ['tenengrad', 'tenengrad'],
+      ['brenner', 'brenner'],
+      ['fft', 'fftHighFrequencyRatio'],
+    ] as const)('%s separates sharp from blurred content', async (method, metric) => {
+      const metricDetector = new BlurDetector({ method });
+      const sharpResult = await metricDetector.analyzeImage(sharp);
+      const blurredResult = await metricDetector.analyzeImage(blurred);
+
+      expect(sharpResult.method).toBe(method);
+      expect(sharpResult.metrics[metric]).toBeGreaterThan(blurredResult.metrics[metric]!);
+      expect(sharpResult.isBlurry).toBe(false);
+      expect(blurredResult.isBlurry).toBe(true);
+      expect(sharpResult.metrics.edgeAnalysis).toBeUndefined();
+    });
+
+    it('reports zero energy for a flat image', () => {
+      expect(SharpnessMetrics.tenengrad(mockImageData)).toBe(0);
+      expect(SharpnessMetrics.brenner(mockImageData)).toBe(0);
+      expect(SharpnessMetrics.fftHighFrequencyRatio(mockImageData)).toBe(0);
+    });
+
+    it('fuses the selected metric into the blur check score', async () => {
+      const result = await validateImage(sharp, {
+        mode: 'general',
+        method: 'tenengrad',
+        checks: ['blur'],
+      });
+
+      expect(result.checks.blur?.ok).toBe(true);
+      expect(result.checks.blur?.score).toBe(100);
+      expect(result.checks.blur?.details?.tenengrad).toBe(result.blurAnalysis?.metrics.tenengrad);
+    });
+
+    it('computes extra metrics next to the primary method and fuses them into the score', async () => {
+      const options = { method: 'brenner', brennerThreshold: 60000, checks: ['blur'] } as const;
+      const single = await validateImage(sharp, options);
+      const fused = await validateImage(sharp, { ...options, metrics: ['tenengrad', 'fft'] });
+
+      expect(single.blurAnalysis?.metrics.tenengrad).toBeUndefined();
+      expect(fused.blurAnalysis?.metrics).toMatchObject({
+        brenner: single.blurAnalysis?.metrics.brenner,
+        tenengrad: expect.any(Number),
+        fftHighFrequencyRatio: expect.any(Number),
+      });
+      expect(fused.blurAnalysis?.isBlurry).toBe(single.blurAnalysis?.isBlurry);
+      expect(single.checks.blur?.score).toBeLessThan(100);
+      expect(fused.checks.blur?.score).toBe(100);
+    });
+  });
+
+  describe('sharpness map', () => {
+    function createHalfBlurredDocumentImageData(): ImageData {
+      const sharp = createSmallDocumentImageData();
+      const blurred = boxBlur(sharp, 9);
+      const data = new Uint8ClampedArray(sharp.data);
+      const half = (sharp.height / 2) * sharp.width * 4;
+      data.set(blurred.data.subarray(half), half);
+      return new ImageData(data, sharp.width, sharp.height);
+    }
+
+    it('does not build a map unless a tile grid is configured', async () => {
+      const result = await detector.analyzeImage(createSmallDocumentImageData());
+      expect(result.metrics.sharpnessMap).toBeUndefined();
+    });
+
+    it('scores each content tile and skips blank margins', async () => {
+      const tileDetector = new BlurDetector({ method: 'edge', tileGrid: { rows: 4, cols: 4 } });
+      const result = await tileDetector.analyzeImage(createHalfBlurredDocumentImageData());
+      const map = result.metrics.sharpnessMap!;
+
+      expect(map.tiles).toHaveLength(4);
+      expect(map.tiles[0]).toHaveLength(4);
+      expect(map.contentTiles).toBeGreaterThan(0);
+      expect(map.contentTiles).toBeLessThanOrEqual(16);
+      expect(map.tiles[1][1]).toBeGreaterThan(map.tiles[3][1]!);
+      expect(map.blurryTiles).toBeGreaterThan(0);
+      expect(map.isPartiallyBlurry).toBe(true);
+    });
+
+    it('reports partial_blur when only part of the document is out of focus', async () => {
+      const result = await validateImage(createHalfBlurredDocumentImageData(), {
+        mode: 'general',
+        method: 'laplacian',
+        tileGrid: { rows: 4, cols: 4 },
+        checks: ['blur'],
+      });
+
+      expect(result.blurAnalysis?.isBlurry).toBe(false);
+      expect(result.issues).toEqual(['partial_blur']);
+      expect(result.checks.blur?.ok).toBe(false);
+      expect(result.recommendations).toContain(
+        'Refocus on the blurry area of the document and retake the image.',
+      );
+    });
+
+    it('respects partialBlurRatio', async () => {
+      const tileDetector = new BlurDetector({
+        method: 'edge',
+        tileGrid: { rows: 4, cols: 4 },
+        partialBlurRatio: 0.9,
+      });
+      const result = await tileDetector.analyzeImage(createHalfBlurredDocumentImageData());
+      expect(result.metrics.sharpnessMap?.isPartiallyBlurry).toBe(false);
+    });
+  });
+
+  describe('blur classification', () => {
+    const texture = createBlockTextureImageData();
+    const lapDetector = new BlurDetector({ method: 'laplacian', laplacianThreshold: 2000 });
+
+    it('leaves sharp images unclassified', async () => {
+      const result = await lapDetector.analyzeImage(texture);
+      expect(result.isBlurry).toBe(false);
+      expect(result.metrics.blurClassification).toBeUndefined();
+    });
+
+    it('classifies isotropic blur as defocus', async () => {
+      const result = await lapDetector.analyzeImage(boxBlur(texture, 9));
+      expect(result.isBlurry).toBe(true);
+      expect(result.metrics.blurClassification?.type).toBe('defocus');
+      expect(result.metrics.blurClassification?.motionAngle).toBeUndefined();
+    });
+
+    it.each([
+      ['horizontal', 0],
+      ['diagonal', 45],
+    ] as const)('classifies %s streaks as motion blur with its angle', async (direction, angle) => {
+      const result = await lapDetector.analyzeImage(motionBlur(texture, 15, direction));
+      expect(result.isBlurry).toBe(true);
+      expect(result.metrics.blurClassification?.type).toBe('motion');
+      expect(result.metrics.blurClassification?.motionAngle).toBeCloseTo(angle, -1);
+    });
+
+    it('recommends focusing rather than steadying for defocus blur', async () => {
+      const result = await validateImage(boxBlur(texture, 9), {
+        method: 'laplacian',
+        laplacianThreshold: 2000,
+        checks: ['blur'],
+      });
+      expect(result.issues).toContain('blurry');
+      expect(result.recommendations).toEqual([BLUR_TYPE_RECOMMENDATIONS.defocus]);
+    });
   });
 
   describe('error handling', () => {
@@ -348,6 +805,7 @@ describe('BlurDetector', () => {
       const result = await validateImage(createSharpDocumentImageData(), {
         mode: 'general',
         method: 'both',
+        laplacianBackend: 'opencv',
         edgeWidthThreshold: 0.2,
         checks: ['resolution', 'brightness', 'contrast', 'blur'],
         minWidth: 600,
@@ -450,6 +908,133 @@ describe('BlurDetector', () => {
       });
     });
 
+    it('judges brightness over the table behind a card without a region of interest', async () => {
+      const result = await validateImage(createCardOnDarkTableImageData(), {
+        mode: 'general',
+        method: 'edge',
+        checks: ['resolution', 'brightness', 'contrast'],
+      });
+
+      expect(result.ok).toBe(false);
+      expect(result.checks.brightness?.ok).toBe(false);
+      expect(result.debugMetrics?.roi).toBeUndefined();
+    });
+
+    it('restricts metrics and resolution to a pixel region of interest', async () => {
+      const roi = { x: 200, y: 150, width: 800, height: 600 };
+      const result = await validateImage(createCardOnDarkTableImageData(), {
+        mode: 'general',
+        method: 'edge',
+        checks: ['resolution', 'brightness', 'contrast'],
+        minWidth: 700,
+        minHeight: 700,
+        roi,
+      });
+
+      expect(result.issues).toEqual(['low_resolution']);
+      expect(result.checks.resolution?.details).toMatchObject({ width: 800, height: 600 });
+      expect(result.width).toBe(1200);
+      expect(result.debugMetrics?.roi).toMatchObject({ ...roi, masked: false, source: roi });
+    });
+
+    it('accepts normalized region coordinates', async () => {
+      const result = await validateImage(createCardOnDarkTableImageData(), {
+        mode: 'general',
+        method: 'edge',
+        checks: ['brightness', 'contrast'],
+        roi: {
+          x: 200 / 1200,
+          y: 150 / 900,
+          width: 800 / 1200,
+          height: 600 / 900,
+          normalized: true,
+        },
+      });
+
+      expect(result.ok).toBe(true);
+      expect(result.debugMetrics?.roi).toMatchObject({ x: 200, y: 150, width: 800, height: 600 });
+    });
+
+    it('limits pixel and blur metrics to an alpha mask cropped to its bounds', async () => {
+      const mask = new ImageData(120, 90);
+      for (let y = 15; y < 75; y++)
+        for (let x = 20; x < 100; x++) mask.data[(y * 120 + x) * 4 + 3] = 255;
+      const result = await validateImage(createCardOnDarkTableImageData(), {
+        mode: 'general',
+        method: 'edge',
+        checks: ['brightness', 'contrast', 'blur'],
+        roi: mask,
+      });
+
+      expect(result.checks.brightness?.ok).toBe(true);
+      expect(result.debugMetrics?.roi).toMatchObject({
+        x: 200,
+        y: 150,
+        width: 800,
+        height: 600,
+        masked: true,
+      });
+      expect(result.blurAnalysis?.metrics.edgeAnalysis).toMatchObject({ width: 800, height: 600 });
+    });
+
+    it('samples blur only from pixels inside an alpha mask', async () => {
+      // Sharp stripes on the left, flat grey on the right; the mask covers the grey half and a
+      // single pixel at the top-left, so its bounding box still spans the stripes.
+      const image = new ImageData(200, 100);
+      const mask = new ImageData(200, 100);
+      for (let y = 0; y < 100; y++) {
+        for (let x = 0; x < 200; x++) {
+          const i = (y * 200 + x) * 4;
+          const v = x < 100 ? (x % 4 < 2 ? 0 : 255) : 128;
+          image.data.fill(v, i, i + 3);
+          image.data[i + 3] = 255;
+          if (x >= 110 || (x === 0 && y === 0)) mask.data[i + 3] = 255;
+        }
+      }
+      const analyze = (roi: RegionOfInterest) =>
+        new BlurDetector({ method: 'laplacian', metrics: ['tenengrad'], roi }).analyzeImage(image);
+
+      const box = await analyze({ x: 0, y: 0, width: 200, height: 100 });
+      const masked = await analyze(mask);
+
+      expect(box.metrics.laplacianVariance).toBeGreaterThan(1000);
+      expect(masked.metrics.laplacianVariance).toBeLessThan(box.metrics.laplacianVariance! / 10);
+      expect(masked.metrics.tenengrad).toBeLessThan(box.metrics.tenengrad!);
+      expect(masked.isBlurry).toBe(true);
+    });
+
+    it('crops BlurDetector input to the configured region', async () => {
+      const roiDetector = new BlurDetector({
+        method: 'edge',
+        roi: { x: 200, y: 150, width: 800, height: 600 },
+      });
+      const result = await roiDetector.analyzeImage(createCardOnDarkTableImageData());
+      expect(result.metrics.edgeAnalysis).toMatchObject({ width: 800, height: 600 });
+    });
+
+    it('reports a region outside the image as invalid_roi', async () => {
+      const result = await validateImage(mockImageData, {
+        roi: { x: 500, y: 500, width: 10, height: 10 },
+      });
+      expect(result.ok).toBe(false);
+      expect(result.issues).toEqual(['invalid_roi']);
+      expect(result.debugMetrics?.roi).toMatchObject({
+        error: 'Region of interest is outside the image',
+      });
+    });
+
+    it('reports an empty mask as invalid_roi', async () => {
+      const result = await validateImage(mockImageData, { roi: new ImageData(10, 10) });
+      expect(result.issues).toEqual(['invalid_roi']);
+    });
+
+    it('still throws from BlurDetector for a region outside the image', async () => {
+      const roiDetector = new BlurDetector({ roi: { x: 500, y: 500, width: 10, height: 10 } });
+      await expect(roiDetector.analyzeImage(mockImageData)).rejects.toThrow(
+        'Region of interest is outside the image',
+      );
+    });
+
     it('flags a white/empty image as blank_image in document mode', async () => {
       const blank = new ImageData(600, 400);
       blank.data.fill(255);
@@ -0,0 +1,93 @@
+import { BlurDetector } from '../blur-detector';
+import { PDFAnalyzer } from '../pdf-analyzer';
+import { AnalysisAbortedError } from '../errors';
+import { validateUpload } from '../index';
+
+function fakePdf(pageCount: number, render: (pageNumber: number) => any) {
+  const getPage = jest.fn(async (pageNumber: number) => ({
+    rotate: 0,
+    getViewport: ({ scale }: { scale: number }) => ({
+      width: 20 * scale,
+      height: 20 * scale,
+      rotation: 0,
+    }),
+    render: () => render(pageNumber),
+    getTextContent: async () => ({ items: [] }),
+  }));
+  const pdfjsLib = {
+    GlobalWorkerOptions: { workerSrc: '' },
+    getDocument: () => ({ promise: Promise.resolve({ numPages: pageCount, getPage }) }),
+  };
+  return { pdfjsLib, getPage };
+}
+
+function pdfFile(): File {
+  const source = '%PDF-1.7\nstartxref\n0\n%%EOF\n';
+  const file = new File([source], 'doc.pdf', { type: 'application/pdf' });
+  const bytes = Uint8Array.from(source, (c) => c.charCodeAt(0));
+  Object.defineProperty(file, 'arrayBuffer', { value: async () => new ArrayBuffer(8) });
+  Object.defineProperty(file, 'slice', {
+    value: (start?: number, end?: number) => ({
+      arrayBuffer: async () => bytes.slice(start, end).buffer,
+    }),
+  });
+  return file;
+}
+
+describe('AbortSignal cancellation', () => {
+  it('rejects image analysis with an already-aborted signal', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const analysis = new BlurDetector().analyzeImage(new ImageData(20, 20), {
+      signal: controller.signal,
+    });
+    await expect(analysis).rejects.toBeInstanceOf(AnalysisAbortedError);
+    await expect(analysis).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('stops image analysis between pipeline stages', async () => {
+    const controller = new AbortController();
+    const analysis = new BlurDetector({ method: 'both' }).analyzeImage(new ImageData(20, 20), {
+      signal: controller.signal,
+    });
+    controller.abort(new Error('User navigated away'));
+    await expect(analysis).rejects.toThrow('User navigated away');
+  });
+
+  it('stops the page loop once the signal aborts', async () => {
+    const controller = new AbortController();
+    const { pdfjsLib, getPage } = fakePdf(3, (pageNumber) => {
+      if (pageNumber === 2) controller.abort();
+      return { promise: Promise.resolve(), cancel: jest.fn() };
+    });
+    await expect(
+      new PDFAnalyzer({ pdfjsLib }).analyzePDF(pdfFile(), { signal: controller.signal }),
+    ).rejects.toBeInstanceOf(AnalysisAbortedError);
+    expect(getPage.mock.calls.map(([n]) => n)).not.toContain(3);
+  });
+
+  it('cancels an in-flight page render', async () => {
+    const controller = new AbortController();
+    const cancel = jest.fn();
+    const { pdfjsLib } = fakePdf(1, () => {
+      let rejectRender: (error: Error) => void = () => {};
+      const promise = new Promise<void>((_resolve, reject) => (rejectRender = reject));
+      cancel.mockImplementation(() => rejectRender(new Error('Rendering cancelled')));
+      setTimeout(() => controller.abort(), 0);
+      return { promise, cancel };
+    });
+    await expect(
+      new PDFAnalyzer({ pdfjsLib }).analyzePDF(pdfFile(), { signal: controller.signal }),
+    ).rejects.toBeInstanceOf(AnalysisAbortedError);
+    expect(cancel).toHaveBeenCalled();
+  });
+
+  it('propagates the abort from validateUpload instead of reporting a corrupted PDF', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const { pdfjsLib } = fakePdf(1, () => ({ promise: Promise.resolve() }));
+    await expect(
+      validateUpload(pdfFile(), { pdfjsLib, signal: controller.signal }),
+    ).rejects.toBeInstanceOf(AnalysisAbortedError);
+  });
+});
@@ -1,4 +1,7 @@
-import { validateFile } from '../validators/file-validator';
+import { detectSignature, readImageDimensions, validateFile } from '../validators/file-validator';
+import { ImageTooLargeError, analyzeFile, validateImage } from '../index';
+import { BlurDetector } from '../blur-detector';
+import { configureRuntime } from '../runtime';
 
 const origBlobSlice = Blob.prototype.slice;
 beforeAll(() => {
@@ -76,3 +79,452 @@ describe('validateFile — spoofed and edge cases', () => {
     expect(result.score).toBe(100);
   });
 });
+
+function bytesFile(name: string, type: string, bytes: number[]): File {
+  const data = Uint8Array.from(bytes);
+  const file = new File([data], name, { type });
+  Object.defineProperty(file, 'slice', {
+    value: (start?: number, end?: number) => ({
+      arrayBuffer: async () => data.slice(start, end).buffer,
+    }),
+    configurable: true,
+  });
+  return file;
+}
+const ascii = (text: string) => Array.from(text, (c) => c.charCodeAt(0));
+const le16 = (n: number) => [n & 0xff, n >> 8];
+const le32 = (n: number) => [...le16(n & 0xffff), ...le16(n >>> 16)];
+const be32 = (n: number) => le32(n).reverse();
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+function pngHeader(width: number, height: number): number[] {
+  return [
+    ...PNG_SIGNATURE,
+    ...be32(13),
+    ...ascii('IHDR'),
+    ...be32(width),
+    ...be32(height),
+    8,
+    6,
+    0,
+    0,
+    0,
+    ...be32(0),
+  ];
+}
+
+describe('validateFile — truncated and malformed files', () => {
+  const pngChunk = (type: string, length: number) => [
+    ...[0, 0, 0, length],
+    ...ascii(type),
+    ...new Array(length + 4).fill(0),
+  ];
+  const JPEG_HEAD = [0xff, 0xd8, 0xff, 0xe0, 0x00, 0x04, 0x00, 0x00];
+  const JPEG_SCAN = [0xff, 0xda, 0x00, 0x02, 0x12, 0xff, 0x00, 0x34, 0xff, 0xd0, 0x56];
+
+  it('accepts a complete JPEG and reports its structure', async () => {
+    const result = await validateFile(
+      bytesFile('photo.jpg', 'image/jpeg', [...JPEG_HEAD, ...JPEG_SCAN, 0xff, 0xd9]),
+    );
+    expect(result.ok).toBe(true);
+    expect(result.details?.structure).toEqual({ complete: true, truncated: false });
+  });
+
+  it('flags a JPEG without an end-of-image marker', async () => {
+    const result = await validateFile(
+      bytesFile('photo.jpg', 'image/jpeg', [...JPEG_HEAD, ...JPEG_SCAN]),
+    );
+    expect(result.ok).toBe(false);
+    expect(result.details).toMatchObject({
+      issues: ['truncated_file'],
+      structure: { truncated: true, reason: 'JPEG has no end-of-image marker' },
+    });
+  });
+
+  it('flags a JPEG segment cut off mid-header', async () => {
+    const result = await validateFile(
+      bytesFile('photo.jpg', 'image/jpeg', [0xff, 0xd8, 0xff, 0xe1, 0x10, 0x00, 0x45]),
+    );
+    expect(result.details?.issues).toEqual(['truncated_file']);
+  });
+
+  it('walks PNG chunks up to IEND', async () => {
+    const complete = [...PNG_SIGNATURE, ...pngChunk('IHDR', 13), ...pngChunk('IEND', 0)];
+    expect((await validateFile(bytesFile('scan.png', 'image/png', complete))).ok).toBe(true);
+
+    const missingEnd = [...PNG_SIGNATURE, ...pngChunk('IHDR', 13), ...pngChunk('IDAT', 8)];
+    const result = await validateFile(bytesFile('scan.png', 'image/png', missingEnd));
+    expect(result.details?.issues).toEqual(['truncated_file']);
+
+    const cutChunk = [...PNG_SIGNATURE, ...pngChunk('IHDR', 13), ...pngChunk('IDAT', 8)];
+    const cut = await validateFile(bytesFile('scan.png', 'image/png', cutChunk.slice(0, -6)));
+    expect(cut.details?.structure).toMatchObject({
+      reason: 'PNG IDAT chunk runs past the end of file',
+    });
+  });
+
+  it('reports a PNG without a leading IHDR as invalid rather than truncated', async () => {
+    const bytes = [...PNG_SIGNATURE, ...pngChunk('IDAT', 4), ...pngChunk('IEND', 0)];
+    const result = await validateFile(bytesFile('scan.png', 'image/png', bytes));
+    expect(result.details?.issues).toEqual(['invalid_file']);
+  });
+
+  it('checks the PDF trailer', async () => {
+    const complete = ascii('%PDF-1.7\nxref\n0 1\ntrailer << >>\nstartxref\n9\n%%EOF\n');
+    expect((await validateFile(bytesFile('doc.pdf', 'application/pdf', complete))).ok).toBe(true);
+
+    const cut = await validateFile(
+      bytesFile('doc.pdf', 'application/pdf', ascii('%PDF-1.7\n1 0 obj << >>')),
+    );
+    expect(cut.details).toMatchObject({
+      issues: ['truncated_file'],
+      structure: { reason: 'PDF has no %%EOF marker' },
+    });
+  });
+
+  it('walks GIF blocks to the trailer and accepts padding after it', async () => {
+    // 1x1 with a 2-entry global color table, a graphic control extension and one image.
+    const gif = [
+      ...ascii('GIF89a'),
+      ...[1, 0, 1, 0, 0x80, 0, 0],
+      ...[0, 0, 0, 255, 255, 255],
+      ...[0x21, 0xf9, 4, 0, 0, 0, 0, 0],
+      ...[0x2c, 0, 0, 0, 0, 1, 0, 1, 0, 0],
+      ...[2, 2, 0x44, 0x01, 0],
+    ];
+    const padded = await validateFile(bytesFile('a.gif', 'image/gif', [...gif, 0x3b, 0, 0, 0]));
+    expect(padded.details?.structure).toEqual({ complete: true, truncated: false });
+
+    const cut = await validateFile(bytesFile('a.gif', 'image/gif', gif.slice(0, -3)));
+    expect(cut.details?.issues).toEqual(['truncated_file']);
+  });
+
+  it('compares the WebP RIFF size with the file length', async () => {
+    const webp = [...ascii('RIFF'), 20, 0, 0, 0, ...ascii('WEBPVP8 '), 0, 0, 0, 0];
+    const result = await validateFile(bytesFile('photo.webp', 'image/webp', webp));
+    expect(result.details?.issues).toEqual(['truncated_file']);
+  });
+
+  it('walks a large JPEG in windows instead of reading it whole', async () => {
+    const scan = [0xff, 0xda, 0x00, 0x02, ...new Array(300_000).fill(0x12), 0xff, 0x00];
+    const bytes = [...JPEG_HEAD, ...scan, 0xff, 0xd9];
+    const file = bytesFile('photo.jpg', 'image/jpeg', bytes);
+    const slice = file.slice;
+    const reads: number[] = [];
+    Object.defineProperty(file, 'slice', {
+      value: (start = 0, end = bytes.length) => {
+        reads.push(Math.min(end, bytes.length) - start);
+        return slice(start, end);
+      },
+    });
+
+    const result = await validateFile(file);
+    expect(result.details?.structure).toEqual({ complete: true, truncated: false });
+    expect(Math.max(...reads)).toBeLessThanOrEqual(64 * 1024);
+  });
+
+  it('skips structure checks when validateStructure is false', async () => {
+    const result = await validateFile(
+      bytesFile('photo.jpg', 'image/jpeg', [...JPEG_HEAD, ...JPEG_SCAN]),
+      { validateStructure: false },
+    );
+    expect(result.ok).toBe(true);
+    expect(result.details?.structure).toBeUndefined();
+  });
+});
+
+describe('readImageDimensions', () => {
+  it('reads the PNG IHDR chunk', async () => {
+    const file = bytesFile('a.png', 'image/png', [...pngHeader(4000, 3000), 0, 0, 0, 0]);
+    expect(await readImageDimensions(file)).toEqual({ width: 4000, height: 3000 });
+  });
+
+  it('walks JPEG segments past APP markers to the frame header', async () => {
+    const app1 = [0xff, 0xe1, 0x00, 0x08, ...ascii('Exif'), 0, 0];
+    const sof2 = [0xff, 0xc2, 0x00, 0x11, 0x08, 0x0b, 0xb8, 0x0f, 0xa0, 3];
+    const file = bytesFile('a.jpg', 'image/jpeg', [0xff, 0xd8, ...app1, ...sof2, ...Array(15)]);
+    expect(await readImageDimensions(file)).toEqual({ width: 4000, height: 3000 });
+  });
+
+  it('reads GIF and BMP headers', async () => {
+    const gif = [...ascii('GIF89a'), ...le16(320), ...le16(200), ...Array(24).fill(0)];
+    expect(await readImageDimensions(bytesFile('a.gif', 'image/gif', gif))).toEqual({
+      width: 320,
+      height: 200,
+    });
+    // Negative heights mark top-down bitmaps.
+    const bmp = [...ascii('BM'), ...Array(12).fill(0), ...le32(40), ...le32(640), ...le32(-480)];
+    expect(
+      await readImageDimensions(bytesFile('a.bmp', 'image/bmp', [...bmp, ...Array(8)])),
+    ).toEqual({ width: 640, height: 480 });
+  });
+
+  it('reads lossy, lossless and extended WebP headers', async () => {
+    const riff = (chunk: string, body: number[]) => [
+      ...ascii('RIFF'),
+      ...le32(100),
+      ...ascii('WEBP'),
+      ...ascii(chunk),
+      ...body,
+      ...Array(16).fill(0),
+    ];
+    const vp8 = riff('VP8 ', [...le32(0), 0, 0, 0, 0x9d, 0x01, 0x2a, ...le16(1024), ...le16(768)]);
+    // 1024x768 packed as 14-bit (width - 1) and (height - 1) after the 0x2f signature.
+    const vp8l = riff('VP8L', [...le32(0), 0x2f, 0xff, 0xc3, 0xbf, 0x00]);
+    const vp8x = riff('VP8X', [...le32(10), 0, 0, 0, 0, ...[0xff, 0x03, 0], ...[0xff, 0x02, 0]]);
+    for (const bytes of [vp8, vp8l, vp8x])
+      expect(await readImageDimensions(bytesFile('a.webp', 'image/webp', bytes))).toEqual({
+        width: 1024,
+        height: 768,
+      });
+  });
+
+  it('reports header dimensions in validateFile details', async () => {
+    const file = bytesFile('a.png', 'image/png', pngHeader(800, 600));
+    const result = await validateFile(file, { validateStructure: false });
+    expect(result.details?.dimensions).toEqual({ width: 800, height: 600 });
+  });
+});
+
+describe('validateImage — pre-decode dimension checks', () => {
+  const decode = jest.fn();
+  beforeEach(() => {
+    decode.mockReset();
+    (global as any).createImageBitmap = decode;
+  });
+  afterAll(() => {
+    delete (global as any).createImageBitmap;
+  });
+
+  it('rejects a decompression bomb without decoding it', async () => {
+    const file = bytesFile('bomb.png', 'image/png', pngHeader(20000, 20000));
+    const result = await validateImage(file);
+    expect(decode).not.toHaveBeenCalled();
+    expect(result.ok).toBe(false);
+    expect(result.issues).toContain('too_many_pixels');
+    expect(result.checks.resolution?.details).toMatchObject({
+      pixels: 400_000_000,
+      maxPixels: 100_000_000,
+      source: 'header',
+    });
+    expect(result).toMatchObject({ width: 20000, height: 20000 });
+  });
+
+  it('refuses to decode a bomb for blur analysis too', async () => {
+    const file = bytesFile('bomb.png', 'image/png', pngHeader(20000, 20000));
+    await expect(new BlurDetector().analyzeImage(file)).rejects.toBeInstanceOf(ImageTooLargeError);
+    await expect(analyzeFile(file, { maxPixels: 1_000_000 })).rejects.toMatchObject({
+      name: 'ImageTooLargeError',
+      width: 20000,
+      height: 20000,
+      maxPixels: 1_000_000,
+    });
+    expect(decode).not.toHaveBeenCalled();
+  });
+
+  it('honours a configured maxPixels', async () => {
+    const file = bytesFile('big.png', 'image/png', pngHeader(3000, 2000));
+    const result = await validateImage(file, { maxPixels: 5_000_000, checks: ['resolution'] });
+    expect(decode).not.toHaveBeenCalled();
+    expect(result.issues).toEqual(['too_many_pixels']);
+  });
+
+  it('rejects undersized images before decoding', async () => {
+    const file = bytesFile('small.png', 'image/png', pngHeader(200, 150));
+    const result = await validateImage(file, { checks: ['resolution'] });
+    expect(decode).not.toHaveBeenCalled();
+    expect(result.issues).toEqual(['low_resolution']);
+  });
+
+  it('reports oversized images as too_large_dimensions', async () => {
+    const file = bytesFile('wide.png', 'image/png', pngHeader(3000, 2000));
+    const result = await validateImage(file, {
+      checks: ['resolution'],
+      maxWidth: 2000,
+      maxHeight: 2000,
+    });
+    expect(decode).not.toHaveBeenCalled();
+    expect(result.issues).toEqual(['too_large_dimensions']);
+    expect(result.checks.resolution?.details).toMatchObject({ maxWidth: 2000, maxHeight: 2000 });
+  });
+
+  it('decodes when the size could pass once EXIF rotation is applied', async () => {
+    decode.mockResolvedValue({ width: 600, height: 900, close: () => {} });
+    const file = bytesFile('id.png', 'image/png', pngHeader(900, 600));
+    const result = await validateImage(file, {
+      checks: ['resolution'],
+      minWidth: 600,
+      minHeight: 900,
+    });
+    expect(decode).toHaveBeenCalled();
+    expect(result.checks.resolution?.ok).toBe(true);
+  });
+});
+
+describe('HEIC, AVIF and TIFF', () => {
+  const ftyp = (brand: string) => [0, 0, 0, 0x18, ...ascii('ftyp'), ...ascii(brand), 0, 0, 0, 0];
+  const TIFF_LE = [0x49, 0x49, 0x2a, 0x00, 8, 0, 0, 0];
+  const TIFF_BE = [0x4d, 0x4d, 0x00, 0x2a, 0, 0, 0, 8];
+
+  it('detects ISO-BMFF brands and both TIFF byte orders', async () => {
+    const detect = (bytes: number[]) => detectSignature(bytesFile('upload', '', bytes));
+    expect(await detect(ftyp('heic'))).toEqual({ type: 'image/heic', extension: 'heic' });
+    expect(await detect(ftyp('mif1'))).toEqual({ type: 'image/heif', extension: 'heif' });
+    expect(await detect(ftyp('avif'))).toEqual({ type: 'image/avif', extension: 'avif' });
+    expect(await detect(ftyp('isom'))).toBeNull();
+    expect(await detect(TIFF_LE)).toEqual({ type: 'image/tiff', extension: 'tif' });
+    expect(await detect(TIFF_BE)).toEqual({ type: 'image/tiff', extension: 'tif' });
+  });
+
+  it('reads TIFF dimensions from the first IFD in either byte order', async () => {
+    // ImageWidth as SHORT, ImageLength as LONG.
+    const le = [
+      ...TIFF_LE,
+      ...le16(2),
+      ...[...le16(0x100), ...le16(3), ...le32(1), ...le16(2480), 0, 0],
+      ...[...le16(0x101), ...le16(4), ...le32(1), ...le32(3508)],
+      ...le32(0),
+    ];
+    const be16 = (n: number) => [n >> 8, n & 0xff];
+    const be = [
+      ...TIFF_BE,
+      ...be16(2),
+      ...[...be16(0x101), ...be16(4), ...be32(1), ...be32(3508)],
+      ...[...be16(0x100), ...be16(4), ...be32(1), ...be32(2480)],
+      ...be32(0),
+    ];
+    for (const bytes of [le, be])
+      expect(await readImageDimensions(bytesFile('scan.tif', 'image/tiff', bytes))).toEqual({
+        width: 2480,
+        height: 3508,
+      });
+    expect(await readImageDimensions(bytesFile('scan.tif', 'image/tiff', TIFF_LE))).toBeNull();
+  });
+
+  it('reads the largest HEIF image spatial extent', async () => {
+    const box = (type: string, body: number[]) => [
+      ...be32(8 + body.length),
+      ...ascii(type),
+      ...body,
+    ];
+    const ispe = (w: number, h: number) => box('ispe', [0, 0, 0, 0, ...be32(w), ...be32(h)]);
+    // A 512x512 grid tile, the 4032x3024 grid and a thumbnail.
+    const ipco = box('ipco', [...ispe(512, 512), ...ispe(4032, 3024), ...ispe(320, 240)]);
+    const meta = box('meta', [0, 0, 0, 0, ...box('hdlr', Array(12).fill(0)), ...box('iprp', ipco)]);
+    for (const brand of ['heic', 'avif'])
+      expect(
+        await readImageDimensions(
+          bytesFile('photo', '', [...box('ftyp', [...ascii(brand), 0, 0, 0, 0]), ...meta]),
+        ),
+      ).toEqual({ width: 4032, height: 3024 });
+    expect(await readImageDimensions(bytesFile('photo.heic', '', ftyp('heic')))).toBeNull();
+  });
+
+  it('accepts a HEIC upload whose browser MIME type is empty', async () => {
+    const result = await validateFile(bytesFile('IMG_0001.HEIC', '', ftyp('heic')));
+    expect(result.ok).toBe(true);
+    expect(result.details?.detectedSignature).toEqual({ type: 'image/heic', extension: 'heic' });
+  });
+
+  it('still rejects an empty MIME type when magic bytes are not checked', async () => {
+    const result = await validateFile(bytesFile('IMG_0001.heic', '', ftyp('heic')), {
+      validateMagicBytes: false,
+    });
+    expect(result.details?.issues).toEqual(['unsupported_format']);
+  });
+
+  it('reports a HEIC the browser cannot decode as undecodable_format', async () => {
+    (global as any).createImageBitmap = jest.fn(async () => {
+      throw new Error('The source image could not be decoded.');
+    });
+    try {
+      const result = await validateImage(bytesFile('photo.heic', 'image/heic', ftyp('heic')));
+      expect(result.ok).toBe(false);
+      expect(result.issues).toEqual(['undecodable_format']);
+      expect(result.checks.format).toMatchObject({ ok: false, details: { type: 'image/heic' } });
+    } finally {
+      delete (global as any).createImageBitmap;
+    }
+  });
+
+  describe('pluggable decoders', () => {
+    const page = (width: number, height: number, value: number) => {
+      const imageData = new ImageData(width, height);
+      imageData.data.fill(value);
+      return imageData;
+    };
+    afterEach(() => configureRuntime({ imageDecoders: undefined }));
+
+    it('decodes HEIC through the decoder registered for its type', async () => {
+      const heic = jest.fn(async () => page(800, 600, 128));
+      configureRuntime({ imageDecoders: { 'image/heic': heic } });
+      const result = await validateImage(bytesFile('photo.heic', 'image/heic', ftyp('heic')), {
+        checks: ['file', 'resolution'],
+        minHeight: 600,
+      });
+      expect(heic).toHaveBeenCalled();
+      expect(result.ok).toBe(true);
+      expect(result).toMatchObject({ width: 800, height: 600 });
+      expect(result.pages).toBeUndefined();
+    });
+
+    it('validates each page of a multi-page TIFF like a PDF', async () => {
+      configureRuntime({
+        imageDecoders: {
+          'image/tiff': async () => [page(1200, 1600, 128), page(300, 400, 128)],
+        },
+      });
+      const result = await validateImage(bytesFile('scan.tif', 'image/tiff', TIFF_LE), {
+        mode: 'document',
+        checks: ['file', 'resolution'],
+      });
+      expect(result.type).toBe('image');
+      expect(result.pages?.map((p) => [p.page, p.ok, p.width])).toEqual([
+        [1, true, 1200],
+        [2, false, 300],
+      ]);
+      expect(result.pages?.[1].issues).toEqual(['low_resolution']);
+      expect(result.issues).toEqual(['low_resolution']);
+      expect(result.checks.file?.ok).toBe(true);
+      expect(result.checks.resolution).toMatchObject({
+        ok: false,
+        details: { pageScores: [100, 50] },
+      });
+      expect(result.ok).toBe(false);
+    });
+
+    it('rejects an oversized page before analysing it', async () => {
+      configureRuntime({
+        imageDecoders: {
+          'image/tiff': async () => [page(1200, 1600, 128), page(2400, 3200, 128)],
+        },
+      });
+      const result = await validateImage(bytesFile('scan.tif', 'image/tiff', TIFF_LE), {
+        mode: 'document',
+        checks: ['resolution', 'brightness'],
+        maxPixels: 5_000_000,
+      });
+      expect(result.pages?.[0].checks.brightness).toBeDefined();
+      expect(result.pages?.[1]).toMatchObject({ page: 2, ok: false, issues: ['too_many_pixels'] });
+      expect(result.pages?.[1].checks.brightness).toBeUndefined();
+      expect(result.issues).toContain('too_many_pixels');
+    });
+
+    it('analyses blur on every page of a multi-page TIFF', async () => {
+      const ruled = page(400, 300, 255);
+      for (let y = 0; y < 300; y += 10) ruled.data.fill(0, y * 400 * 4, (y + 2) * 400 * 4);
+      configureRuntime({
+        imageDecoders: { 'image/tiff': async () => [ruled, page(400, 300, 128)] },
+      });
+      const result = await new BlurDetector({ method: 'laplacian' }).analyzeImage(
+        bytesFile('scan.tif', 'image/tiff', TIFF_LE),
+      );
+      expect(result.pages?.map((p) => [p.page, p.isBlurry])).toEqual([
+        [1, false],
+        [2, true],
+      ]);
+      expect(result.isBlurry).toBe(true);
+      expect(result.metrics).toEqual(result.pages?.[1].metrics);
+    });
+  });
+});
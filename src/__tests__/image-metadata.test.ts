@@ -0,0 +1,386 @@
+import { crc32 } from 'node:zlib';
+import { readImageMetadata } from '../image-metadata';
+import { orientImageData } from '../image-utils';
+import { sanitizeFile, validateImage } from '../index';
+import { configureRuntime } from '../runtime';
+
+function bytesFile(name: string, type: string, bytes: number[]): File {
+  const data = Uint8Array.from(bytes);
+  const file = new File([data], name, { type });
+  Object.defineProperty(file, 'slice', {
+    value: (start?: number, end?: number) => ({
+      arrayBuffer: async () => data.slice(start, end).buffer,
+    }),
+  });
+  return file;
+}
+const ascii = (text: string) => Array.from(text, (c) => c.charCodeAt(0));
+const be16 = (n: number) => [n >> 8, n & 0xff];
+const be32 = (n: number) => [...be16(n >>> 16), ...be16(n & 0xffff)];
+const entry = (tag: number, type: number, count: number, value: number[]) => [
+  ...be16(tag),
+  ...be16(type),
+  ...be32(count),
+  ...value,
+  ...Array(4 - value.length).fill(0),
+];
+
+type Tag = [tag: number, type: number, count: number, value: number[]];
+const text = (tag: number, value: string): Tag => [tag, 2, value.length + 1, [...ascii(value), 0]];
+
+// Big-endian TIFF block: IFD0 with Exif and GPS pointers, both IFDs, then out-of-line values.
+function tiff(ifd0: Tag[], exif: Tag[], gps: Tag[]): number[] {
+  const size = (tags: Tag[]) => 6 + tags.length * 12;
+  const exifAt = 8 + size(ifd0) + 24;
+  const gpsAt = exifAt + size(exif);
+  const dataAt = gpsAt + size(gps);
+  const data: number[] = [];
+  const ifd = (tags: Tag[]) => [
+    ...be16(tags.length),
+    ...tags.flatMap(([tag, type, count, value]) => {
+      if (value.length <= 4) return entry(tag, type, count, value);
+      data.push(...value);
+      return entry(tag, type, count, be32(dataAt + data.length - value.length));
+    }),
+    ...be32(0),
+  ];
+  const pointers: Tag[] = [
+    [0x8769, 4, 1, be32(exifAt)],
+    [0x8825, 4, 1, be32(gpsAt)],
+  ];
+  return [
+    ...ascii('MM'),
+    0,
+    0x2a,
+    ...be32(8),
+    ...ifd([...ifd0, ...pointers]),
+    ...ifd(exif),
+    ...ifd(gps),
+    ...data,
+  ];
+}
+
+function exifBlock(orientation: number, exif: Tag[] = []): number[] {
+  return tiff(
+    [text(0x010f, 'Canon'), text(0x0110, 'EOS R5'), [0x0112, 3, 1, be16(orientation)]],
+    [
+      [0x829a, 5, 1, [...be32(1), ...be32(250)]],
+      [0x8827, 3, 1, be16(400)],
+      text(0x9003, '2024:05:01 14:30:00'),
+      text(0x9011, '+02:00'),
+      ...exif,
+    ],
+    [[0x0002, 5, 3, Array(24).fill(0xab)]],
+  );
+}
+
+function jpeg(segments: number[][], width = 900, height = 600): number[] {
+  const app = (marker: number, body: number[]) => [0xff, marker, ...be16(body.length + 2), ...body];
+  const sof0 = app(0xc0, [8, ...be16(height), ...be16(width), 3, ...Array(9).fill(0)]);
+  return [
+    0xff,
+    0xd8,
+    ...segments.flatMap((s) => app(0xe1, s)),
+    ...sof0,
+    0xff,
+    0xda,
+    0,
+    2,
+    0xff,
+    0xd9,
+  ];
+}
+
+const XMP = [
+  '<x:xmpmeta><rdf:RDF><rdf:Description tiff:Orientation="8" tiff:Make="Nikon"',
+  ' exif:GPSLatitude="51,30.0N">',
+  '<exif:ISOSpeedRatings><rdf:Seq><rdf:li>200</rdf:li></rdf:Seq></exif:ISOSpeedRatings>',
+  '</rdf:Description></rdf:RDF></x:xmpmeta>',
+].join('');
+
+const XMP_SEGMENT = [...ascii('http://ns.adobe.com/xap/1.0/\0'), ...ascii(XMP)];
+const PNG_XMP = [...ascii('XML:com.adobe.xmp\0\0\0\0\0'), ...ascii(XMP)];
+
+function pngChunk(type: string, data: number[]): number[] {
+  const body = [...ascii(type), ...data];
+  return [...be32(data.length), ...body, ...be32(crc32(Uint8Array.from(body)))];
+}
+const PNG_HEAD = [
+  ...[0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+  ...pngChunk('IHDR', [...be32(640), ...be32(480), 8, 6, 0, 0, 0]),
+];
+
+describe('readImageMetadata', () => {
+  it('parses EXIF from a JPEG APP1 segment', async () => {
+    const file = bytesFile('a.jpg', 'image/jpeg', jpeg([[...ascii('Exif\0\0'), ...exifBlock(6)]]));
+    expect(await readImageMetadata(file)).toEqual({
+      orientation: 6,
+      make: 'Canon',
+      model: 'EOS R5',
+      captureTime: '2024-05-01T14:30:00+02:00',
+      exposureTime: 1 / 250,
+      iso: 400,
+      hasGps: true,
+      hasSerialNumber: false,
+      hasExif: true,
+      hasXmp: false,
+    });
+  });
+
+  it('prefers EXIF and fills gaps from XMP', async () => {
+    const file = bytesFile(
+      'a.jpg',
+      'image/jpeg',
+      jpeg([[...ascii('Exif\0\0'), ...exifBlock(1)], XMP_SEGMENT]),
+    );
+    const metadata = await readImageMetadata(file);
+    expect(metadata).toMatchObject({ orientation: 1, make: 'Canon', iso: 400, hasXmp: true });
+  });
+
+  it('reads XMP from an uncompressed PNG iTXt chunk', async () => {
+    const png = [...PNG_HEAD, ...pngChunk('iTXt', PNG_XMP), ...pngChunk('IEND', [])];
+    expect(await readImageMetadata(bytesFile('a.png', 'image/png', png))).toEqual({
+      orientation: 8,
+      make: 'Nikon',
+      iso: 200,
+      hasGps: true,
+      hasSerialNumber: false,
+      hasExif: false,
+      hasXmp: true,
+    });
+  });
+
+  it('returns null for containers it does not parse', async () => {
+    const gif = [...ascii('GIF89a'), ...Array(26).fill(0), 0x3b];
+    expect(await readImageMetadata(bytesFile('a.gif', 'image/gif', gif))).toBeNull();
+  });
+});
+
+describe('EXIF orientation', () => {
+  // 3x2 image whose red channel holds each pixel's index.
+  const source = () => {
+    const imageData = new ImageData(3, 2);
+    for (let i = 0; i < 6; i++) imageData.data[i * 4] = i;
+    return imageData;
+  };
+  const reds = (imageData: ImageData) => Array.from({ length: 6 }, (_, i) => imageData.data[i * 4]);
+
+  it('rotates pixels for orientations 6 and 8', () => {
+    const cw = orientImageData(source(), 6);
+    expect([cw.width, cw.height]).toEqual([2, 3]);
+    expect(reds(cw)).toEqual([3, 0, 4, 1, 5, 2]);
+    const ccw = orientImageData(source(), 8);
+    expect(reds(ccw)).toEqual([2, 5, 1, 4, 0, 3]);
+    expect(orientImageData(source(), 1).width).toBe(3);
+  });
+
+  describe('validateImage', () => {
+    const decode = jest.fn(async () => new ImageData(900, 600));
+    beforeEach(() => configureRuntime({ imageDecoders: { 'image/jpeg': decode } }));
+    afterEach(() => configureRuntime({ imageDecoders: undefined }));
+
+    it('rotates decoder output and reports the metadata', async () => {
+      const file = bytesFile(
+        'id.jpg',
+        'image/jpeg',
+        jpeg([[...ascii('Exif\0\0'), ...exifBlock(6)]]),
+      );
+      const result = await validateImage(file, {
+        checks: ['resolution'],
+        minWidth: 600,
+        minHeight: 900,
+      });
+      expect(decode).toHaveBeenCalled();
+      expect(result).toMatchObject({ ok: true, width: 600, height: 900 });
+      expect(result.metadata).toMatchObject({ orientation: 6, hasGps: true });
+    });
+
+    it('applies size limits exactly when the orientation is known', async () => {
+      decode.mockClear();
+      const file = bytesFile(
+        'id.jpg',
+        'image/jpeg',
+        jpeg([[...ascii('Exif\0\0'), ...exifBlock(1)]]),
+      );
+      const result = await validateImage(file, {
+        checks: ['resolution'],
+        minWidth: 600,
+        minHeight: 900,
+      });
+      expect(decode).not.toHaveBeenCalled();
+      expect(result.issues).toEqual(['low_resolution']);
+      expect(result.metadata?.orientation).toBe(1);
+    });
+  });
+});
+
+describe('sanitizeFile', () => {
+  // FileReader is mocked, so output is read back from the parts its File was built from.
+  const OriginalFile = File;
+  class RecordedFile extends OriginalFile {
+    constructor(
+      readonly parts: BlobPart[],
+      name: string,
+      options?: FilePropertyBag,
+    ) {
+      super(parts, name, options);
+    }
+  }
+  beforeAll(() => {
+    global.File = RecordedFile;
+  });
+  afterAll(() => {
+    global.File = OriginalFile;
+  });
+  const bytesOf = (file: File) => (file as RecordedFile).parts[0] as Uint8Array;
+  const metadataOf = async (file: File) =>
+    readImageMetadata(bytesFile(file.name, file.type, Array.from(bytesOf(file))));
+  const exifSegment = (orientation: number) => [
+    ...ascii('Exif\0\0'),
+    ...exifBlock(orientation, [text(0xa431, 'SN-0123456789')]),
+  ];
+
+  it('removes GPS and serial numbers from JPEG EXIF in place', async () => {
+    const original = jpeg([exifSegment(6)]);
+    const result = await sanitizeFile(bytesFile('photo.jpg', 'image/jpeg', original));
+    expect(result.removed).toEqual(['gps', 'deviceIdentifiers']);
+    expect(result.bytesRemoved).toBe(0);
+    expect(result.file).toMatchObject({ name: 'photo.jpg', type: 'image/jpeg' });
+    const bytes = bytesOf(result.file);
+    expect(String.fromCharCode(...bytes)).not.toContain('SN-0123456789');
+    expect(String.fromCharCode(...bytes)).not.toContain('\xab'.repeat(24));
+    expect(Array.from(bytes.slice(-24))).toEqual(original.slice(-24));
+    expect(await metadataOf(result.file)).toMatchObject({
+      orientation: 6,
+      make: 'Canon',
+      captureTime: '2024-05-01T14:30:00+02:00',
+      iso: 400,
+      hasGps: false,
+      hasSerialNumber: false,
+    });
+  });
+
+  it('keeps the maker note and tags of unknown types', async () => {
+    const makerNote = entry(0x927c, 7, 4, [1, 2, 3, 4]);
+    const unknownType = entry(0xc000, 99, 1, [5, 6, 7, 8]);
+    const segment = [
+      ...ascii('Exif\0\0'),
+      ...exifBlock(1, [
+        [0x927c, 7, 4, [1, 2, 3, 4]],
+        [0xc000, 99, 1, [5, 6, 7, 8]],
+        text(0xa431, 'SN-0123456789'),
+      ]),
+    ];
+    const result = await sanitizeFile(bytesFile('photo.jpg', 'image/jpeg', jpeg([segment])));
+    const output = String.fromCharCode(...bytesOf(result.file));
+    expect(result.removed).toEqual(['gps', 'deviceIdentifiers']);
+    expect(output).not.toContain('SN-0123456789');
+    expect(output).toContain(String.fromCharCode(...makerNote));
+    expect(output).toContain(String.fromCharCode(...unknownType));
+  });
+
+  it('keeps the location when stripGps is false', async () => {
+    const file = bytesFile('photo.jpg', 'image/jpeg', jpeg([exifSegment(1)]));
+    const result = await sanitizeFile(file, { stripGps: false });
+    expect(result.removed).toEqual(['deviceIdentifiers']);
+    expect(await metadataOf(result.file)).toMatchObject({ hasGps: true, hasSerialNumber: false });
+  });
+
+  it('keeps only the orientation with stripAll', async () => {
+    const comment = [0xff, 0xfe, ...be16(7), ...ascii('hello')];
+    const original = jpeg([exifSegment(6), XMP_SEGMENT]);
+    const file = bytesFile('photo.jpg', 'image/jpeg', [
+      0xff,
+      0xd8,
+      ...comment,
+      ...original.slice(2),
+    ]);
+    const result = await sanitizeFile(file, { stripAll: true });
+    expect(result.removed.sort()).toEqual(['comments', 'deviceIdentifiers', 'exif', 'gps', 'xmp']);
+    expect(result.bytesRemoved).toBeGreaterThan(0);
+    expect(await metadataOf(result.file)).toEqual({
+      orientation: 6,
+      hasGps: false,
+      hasSerialNumber: false,
+      hasExif: true,
+      hasXmp: false,
+    });
+  });
+
+  it('rewrites PNG chunks with valid CRCs', async () => {
+    const png = [
+      ...PNG_HEAD,
+      ...pngChunk('eXIf', exifBlock(1, [text(0xa431, 'SN-0123456789')])),
+      ...pngChunk('iTXt', PNG_XMP),
+      ...pngChunk('IDAT', [1, 2, 3]),
+      ...pngChunk('IEND', []),
+    ];
+    const result = await sanitizeFile(bytesFile('scan.png', 'image/png', png));
+    expect(result.removed).toEqual(['gps', 'deviceIdentifiers']);
+    const bytes = bytesOf(result.file);
+    const view = new DataView(bytes.buffer);
+    for (let offset = 8; offset < bytes.length; offset += 12 + view.getUint32(offset)) {
+      const end = offset + 8 + view.getUint32(offset);
+      expect(view.getUint32(end)).toBe(crc32(bytes.subarray(offset + 4, end)));
+    }
+    expect(await metadataOf(result.file)).toMatchObject({
+      orientation: 1,
+      make: 'Canon',
+      hasGps: false,
+      hasExif: true,
+      hasXmp: true,
+    });
+  });
+
+  it('drops WebP metadata chunks and clears their VP8X flags', async () => {
+    const riffChunk = (type: string, data: number[]) => [
+      ...ascii(type),
+      ...be32(data.length).reverse(),
+      ...data,
+      ...Array(data.length % 2).fill(0),
+    ];
+    const chunks = [
+      ...riffChunk('VP8X', [0x0c, 0, 0, 0, 0xff, 0x03, 0, 0xff, 0x02, 0]),
+      ...riffChunk('VP8 ', Array(11).fill(0)),
+      ...riffChunk('EXIF', exifBlock(1)),
+      ...riffChunk('XMP ', ascii(XMP)),
+    ];
+    const webp = [
+      ...ascii('RIFF'),
+      ...be32(chunks.length + 4).reverse(),
+      ...ascii('WEBP'),
+      ...chunks,
+    ];
+    const result = await sanitizeFile(bytesFile('a.webp', 'image/webp', webp), { stripAll: true });
+    const bytes = bytesOf(result.file);
+    const view = new DataView(bytes.buffer);
+    expect(view.getUint32(4, true)).toBe(bytes.length - 8);
+    expect(bytes[20]).toBe(0);
+    expect(String.fromCharCode(...bytes)).not.toMatch(/EXIF|XMP /);
+    expect(result.removed).toEqual(['gps', 'exif', 'xmp']);
+  });
+
+  it('rejects formats whose metadata it cannot rewrite', async () => {
+    const gif = [...ascii('GIF89a'), ...Array(26).fill(0), 0x3b];
+    await expect(sanitizeFile(bytesFile('a.gif', 'image/gif', gif))).rejects.toThrow(
+      'Cannot sanitize image/gif',
+    );
+  });
+
+  it('warns about GPS and serial numbers during validation', async () => {
+    const decode = jest.fn(async () => new ImageData(900, 600));
+    configureRuntime({ imageDecoders: { 'image/jpeg': decode } });
+    try {
+      const file = bytesFile('photo.jpg', 'image/jpeg', jpeg([exifSegment(1)]));
+      const result = await validateImage(file, { checks: ['resolution'] });
+      expect(result.ok).toBe(true);
+      expect(result.warnings).toEqual(['metadata_privacy']);
+      expect(result.metadata).toMatchObject({ hasGps: true, hasSerialNumber: true });
+      expect(result.recommendations).toContain(
+        'Remove location and camera details from the photo before sharing it.',
+      );
+    } finally {
+      configureRuntime({ imageDecoders: undefined });
+    }
+  });
+});
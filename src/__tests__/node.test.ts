@@ -0,0 +1,104 @@
+/**
+ * @jest-environment node
+ */
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import NodeBlurryCheck, {
+  BlurryCheck,
+  sanitizeFile,
+  validateImage,
+  validateUpload,
+  toFile,
+} from '../node';
+
+jest.mock(
+  'canvas',
+  () => ({
+    loadImage: jest.fn(async () => ({ width: 640, height: 480 })),
+    createCanvas: jest.fn((width: number, height: number) => ({
+      width,
+      height,
+      getContext: () => ({
+        drawImage: jest.fn(),
+        getImageData: (_x: number, _y: number, w: number, h: number) => {
+          const imageData = new ImageData(w, h);
+          imageData.data.fill(255);
+          return imageData;
+        },
+      }),
+    })),
+  }),
+  { virtual: true },
+);
+
+jest.mock(
+  'pdfjs-dist/legacy/build/pdf.js',
+  () => ({
+    getDocument: jest.fn(() => ({ promise: Promise.reject(new Error('Invalid PDF structure')) })),
+  }),
+  { virtual: true },
+);
+
+const PNG_BYTES = new Uint8Array([
+  ...[0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+  ...[0, 0, 0, 13, ...Buffer.from('IHDR'), 0, 0, 0x02, 0x80, 0, 0, 0x01, 0xe0],
+  ...new Array(5 + 4).fill(0),
+  ...[0, 0, 0, 0, ...Buffer.from('IEND'), 0, 0, 0, 0],
+]);
+const PDF_BYTES = new Uint8Array(Buffer.from('%PDF-1.7\nstartxref\n0\n%%EOF\n'));
+
+describe('Node.js entry', () => {
+  // Runs first, so nothing has installed the runtime yet.
+  it('installs the runtime from the BlurryCheck class and the default export', async () => {
+    const { loadImage } = jest.requireMock('canvas');
+    expect(NodeBlurryCheck).toBe(BlurryCheck);
+    const result = await new BlurryCheck().validateImage(PNG_BYTES, {
+      checks: ['resolution'],
+      minHeight: 480,
+    });
+    expect(loadImage).toHaveBeenCalled();
+    expect(result.width).toBe(640);
+  });
+
+  it('sanitizes byte input', async () => {
+    const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xfe, 0, 4, 0x68, 0x69, 0xff, 0xd9]);
+    const result = await sanitizeFile(jpeg, { stripAll: true });
+    expect(result.file.name).toBe('upload.jpg');
+    expect(result.removed).toEqual(['comments']);
+  });
+
+  it('names byte inputs from their magic bytes', async () => {
+    const file = await toFile(PNG_BYTES);
+    expect(file.name).toBe('upload.png');
+    expect(file.type).toBe('image/png');
+  });
+
+  it('decodes Uint8Array input with node-canvas', async () => {
+    const { loadImage } = jest.requireMock('canvas');
+    const result = await validateImage(PNG_BYTES, {
+      checks: ['file', 'resolution'],
+      minHeight: 480,
+    });
+    expect(loadImage).toHaveBeenCalled();
+    expect(result.type).toBe('image');
+    expect(result.checks.file?.ok).toBe(true);
+    expect(result.width).toBe(640);
+    expect(result.height).toBe(480);
+  });
+
+  it('reads file paths from disk', async () => {
+    const path = join(mkdtempSync(join(tmpdir(), 'blurry-check-')), 'scan.png');
+    writeFileSync(path, PNG_BYTES);
+    const result = await validateUpload(path, { checks: ['file'] });
+    expect(result.checks.file?.details).toMatchObject({ name: 'scan.png', mimeType: 'image/png' });
+  });
+
+  it('loads pdf.js from node_modules for PDF input', async () => {
+    const { getDocument } = jest.requireMock('pdfjs-dist/legacy/build/pdf.js');
+    const result = await validateUpload(PDF_BYTES);
+    expect(getDocument).toHaveBeenCalled();
+    expect(result.type).toBe('pdf');
+    expect(result.issues).toContain('corrupted_pdf');
+  });
+});
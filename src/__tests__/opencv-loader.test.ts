@@ -0,0 +1,111 @@
+import { OpenCVLoader } from '../opencv-loader';
+import { BlurDetector } from '../blur-detector';
+
+function fakeCv(stddev: number) {
+  class Mat {
+    data64F = [0];
+    delete() {}
+  }
+  return {
+    Mat,
+    COLOR_RGBA2GRAY: 11,
+    CV_64F: 6,
+    matFromImageData: () => new Mat(),
+    cvtColor: jest.fn(),
+    Laplacian: jest.fn(),
+    meanStdDev: (_src: unknown, _mean: unknown, dev: { data64F: number[] }) => {
+      dev.data64F = [stddev];
+    },
+  };
+}
+
+describe('OpenCVLoader', () => {
+  let appended: any[];
+
+  beforeEach(() => {
+    appended = [];
+    jest.spyOn(document.body, 'appendChild').mockImplementation((script: any) => {
+      appended.push(script);
+      return script;
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete window.cv;
+  });
+
+  function scriptDouble() {
+    const listeners: Record<string, () => void> = {};
+    return {
+      dataset: {} as Record<string, string>,
+      addEventListener: (type: string, listener: () => void) => (listeners[type] = listener),
+      remove: jest.fn(),
+      fire: (type: string) => listeners[type]?.(),
+    };
+  }
+
+  it('uses an injected cv module without loading a script', async () => {
+    const cv = fakeCv(1);
+    const loader = new OpenCVLoader(undefined, { cv });
+    await loader.loadOpenCV();
+    expect(loader.isLoaded()).toBe(true);
+    expect(loader.getCV()).toBe(cv);
+    expect(appended).toHaveLength(0);
+  });
+
+  it('keeps a separate instance per URL', () => {
+    const a = OpenCVLoader.getInstance('/assets/opencv-a.js');
+    expect(OpenCVLoader.getInstance('/assets/opencv-a.js')).toBe(a);
+    expect(OpenCVLoader.getInstance('/assets/opencv-b.js')).not.toBe(a);
+  });
+
+  it('keeps a separate instance per set of load options', () => {
+    const a = OpenCVLoader.getInstance('/assets/opencv-c.js', { integrity: 'sha384-a' });
+    expect(OpenCVLoader.getInstance('/assets/opencv-c.js', { integrity: 'sha384-a' })).toBe(a);
+    expect(OpenCVLoader.getInstance('/assets/opencv-c.js', { integrity: 'sha384-b' })).not.toBe(a);
+    expect(OpenCVLoader.getInstance('/assets/opencv-c.js', { nonce: 'n' })).not.toBe(a);
+    expect(
+      OpenCVLoader.getInstance('/assets/opencv-c.js', { integrity: 'sha384-a', timeoutMs: 5 }),
+    ).not.toBe(a);
+  });
+
+  it('injects the script with integrity and nonce', async () => {
+    const script = scriptDouble();
+    jest.spyOn(document, 'createElement').mockReturnValue(script as any);
+    const cv = fakeCv(1);
+    const loading = new OpenCVLoader('/assets/opencv-c.js', {
+      integrity: 'sha384-xyz',
+      nonce: 'n0nce',
+    }).loadOpenCV();
+    expect(appended[0]).toMatchObject({
+      src: '/assets/opencv-c.js',
+      integrity: 'sha384-xyz',
+      crossOrigin: 'anonymous',
+      nonce: 'n0nce',
+      dataset: { opencvUrl: '/assets/opencv-c.js' },
+    });
+    window.cv = cv;
+    script.fire('load');
+    await loading;
+  });
+
+  it('rejects after the configured timeout and removes the script', async () => {
+    const script = scriptDouble();
+    jest.spyOn(document, 'createElement').mockReturnValue(script as any);
+    await expect(
+      new OpenCVLoader('/assets/opencv-d.js', { timeoutMs: 50 }).loadOpenCV(),
+    ).rejects.toThrow('OpenCV loading timeout');
+    expect(script.remove).toHaveBeenCalled();
+  });
+
+  it('lets BlurDetector run the OpenCV backend against an injected module', async () => {
+    const detector = new BlurDetector({
+      method: 'laplacian',
+      laplacianBackend: 'opencv',
+      openCvModule: fakeCv(20),
+    });
+    const result = await detector.analyzeImage(new ImageData(10, 10));
+    expect(result.metrics.laplacianVariance).toBe(400);
+  });
+});
@@ -0,0 +1,548 @@
+import { PDFAnalyzer } from '../pdf-analyzer';
+import { DEFAULT_PDFJS_WORKER_URL } from '../constants';
+import { configureRuntime } from '../runtime';
+import { PDFPasswordError } from '../errors';
+
+function fakePdfjs() {
+  return {
+    GlobalWorkerOptions: { workerSrc: '' },
+    getDocument: jest.fn(() => ({ promise: Promise.reject(new Error('Invalid PDF structure')) })),
+  };
+}
+
+function pdfFile(): File {
+  const file = new File(['%PDF-1.7'], 'doc.pdf', { type: 'application/pdf' });
+  Object.defineProperty(file, 'arrayBuffer', { value: async () => new ArrayBuffer(8) });
+  return file;
+}
+
+describe('PDFAnalyzer pdf.js loading', () => {
+  let appended: any[];
+
+  beforeEach(() => {
+    appended = [];
+    jest.spyOn(document.body, 'appendChild').mockImplementation((script: any) => {
+      appended.push(script);
+      window.pdfjsLib = fakePdfjs();
+      setTimeout(() => script.onload(), 0);
+      return script;
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete window.pdfjsLib;
+  });
+
+  it('uses an injected pdfjsLib without loading a script', async () => {
+    const pdfjsLib = fakePdfjs();
+    await expect(
+      new PDFAnalyzer({ pdfjsLib, pdfjsWorkerUrl: '/assets/pdf.worker.min.js' }).analyzePDF(
+        pdfFile(),
+      ),
+    ).rejects.toThrow('Invalid PDF structure');
+    expect(pdfjsLib.getDocument).toHaveBeenCalled();
+    expect(pdfjsLib.GlobalWorkerOptions.workerSrc).toBe('/assets/pdf.worker.min.js');
+    expect(appended).toHaveLength(0);
+  });
+
+  it('loads pdf.js from a configured URL with integrity and nonce', async () => {
+    await expect(
+      new PDFAnalyzer({
+        pdfjsUrl: '/assets/pdfjs/pdf.min.js',
+        pdfjsIntegrity: 'sha384-abc',
+        nonce: 'r4nd0m',
+      }).analyzePDF(pdfFile()),
+    ).rejects.toThrow('Invalid PDF structure');
+    expect(appended[0]).toMatchObject({
+      src: '/assets/pdfjs/pdf.min.js',
+      integrity: 'sha384-abc',
+      crossOrigin: 'anonymous',
+      nonce: 'r4nd0m',
+    });
+    expect(window.pdfjsLib?.GlobalWorkerOptions.workerSrc).toBe('/assets/pdfjs/pdf.worker.min.js');
+  });
+
+  it('prefers an explicit worker URL over the derived one', async () => {
+    await expect(
+      new PDFAnalyzer({
+        pdfjsUrl: '/assets/pdf.js',
+        pdfjsWorkerUrl: '/workers/pdf-worker.js',
+      }).analyzePDF(pdfFile()),
+    ).rejects.toThrow();
+    expect(window.pdfjsLib?.GlobalWorkerOptions.workerSrc).toBe('/workers/pdf-worker.js');
+  });
+
+  it('falls back to the CDN worker when none can be derived', async () => {
+    await expect(
+      new PDFAnalyzer({ pdfjsUrl: '/assets/pdfjs-bundle' }).analyzePDF(pdfFile()),
+    ).rejects.toThrow();
+    expect(window.pdfjsLib?.GlobalWorkerOptions.workerSrc).toBe(DEFAULT_PDFJS_WORKER_URL);
+  });
+});
+
+describe('PDFAnalyzer concurrency', () => {
+  let inFlight: number, peak: number, contexts: Set<unknown>;
+
+  // The shared jsdom canvas mock would be resized by every slot at once.
+  function slotCanvas() {
+    const context = {
+      createImageData: (w: number, h: number) => new ImageData(w, h),
+      getImageData: (_x: number, _y: number, w: number, h: number) => new ImageData(w, h),
+    };
+    return { width: 1, height: 1, getContext: () => context } as unknown as HTMLCanvasElement;
+  }
+
+  function multiPagePdfjs(pageCount: number, renderDelayMs: (pageNumber: number) => number) {
+    const getPage = jest.fn(async (pageNumber: number) => ({
+      rotate: 0,
+      getViewport: ({ scale }: { scale: number }) => ({
+        width: 20 * scale,
+        height: 20 * scale,
+        rotation: 0,
+      }),
+      render: ({ canvasContext }: { canvasContext: unknown }) => {
+        contexts.add(canvasContext);
+        inFlight++;
+        peak = Math.max(peak, inFlight);
+        return {
+          promise: new Promise<void>((resolve) =>
+            setTimeout(() => {
+              inFlight--;
+              resolve();
+            }, renderDelayMs(pageNumber)),
+          ),
+        };
+      },
+      getTextContent: async () => ({ items: [] }),
+    }));
+    return {
+      GlobalWorkerOptions: { workerSrc: '' },
+      getDocument: () => ({ promise: Promise.resolve({ numPages: pageCount, getPage }) }),
+    };
+  }
+
+  beforeEach(() => {
+    inFlight = 0;
+    peak = 0;
+    contexts = new Set();
+    configureRuntime({ createCanvas: slotCanvas });
+  });
+
+  afterEach(() => configureRuntime({ createCanvas: undefined }));
+
+  it('renders pages in parallel with one canvas per slot and keeps page order', async () => {
+    const pdfjsLib = multiPagePdfjs(5, (page) => (page === 1 ? 40 : 5));
+    const result = await new PDFAnalyzer({ pdfjsLib }).analyzePDF(pdfFile(), {
+      concurrency: 3,
+      maxRenderScale: 1,
+    });
+
+    expect(result.corruptedPages).toBeUndefined();
+    expect(peak).toBe(3);
+    expect(contexts.size).toBe(3);
+    expect(result.pageResults?.map((r) => r.metrics.pdfPageMetrics?.pageNumber)).toEqual([
+      1, 2, 3, 4, 5,
+    ]);
+  });
+
+  it('renders sequentially by default', async () => {
+    const pdfjsLib = multiPagePdfjs(3, () => 1);
+    await new PDFAnalyzer({ pdfjsLib }).analyzePDF(pdfFile(), { maxRenderScale: 1 });
+    expect(peak).toBe(1);
+  });
+
+  it('still honours maxPages and timeoutMs', async () => {
+    const pdfjsLib = multiPagePdfjs(10, () => 50);
+    const capped = await new PDFAnalyzer({ pdfjsLib }).analyzePDF(pdfFile(), {
+      concurrency: 4,
+      maxPages: 2,
+      maxRenderScale: 1,
+    });
+    expect(peak).toBe(2);
+    expect(capped.pageResults).toHaveLength(2);
+
+    const timedOut = await new PDFAnalyzer({ pdfjsLib }).analyzePDF(pdfFile(), {
+      concurrency: 2,
+      timeoutMs: 20,
+      maxRenderScale: 1,
+    });
+    expect(timedOut.incomplete).toBe(true);
+    expect(timedOut.incompleteReason).toBe('Timeout: stopped at page 3');
+    expect(timedOut.pageResults?.map((r) => r.metrics.pdfPageMetrics?.pageNumber)).toEqual([1, 2]);
+  });
+});
+
+describe('PDFAnalyzer render reuse', () => {
+  function textPdfjs(pageCount: number) {
+    const render = jest.fn(() => ({ promise: Promise.resolve() }));
+    const getPage = jest.fn(async () => ({
+      rotate: 0,
+      getViewport: ({ scale }: { scale: number }) => ({
+        width: 20 * scale,
+        height: 20 * scale,
+        rotation: 0,
+      }),
+      render,
+      getTextContent: async () => ({ items: [{ str: 'Account statement for the period' }] }),
+    }));
+    const pdfjsLib = {
+      GlobalWorkerOptions: { workerSrc: '' },
+      getDocument: () => ({ promise: Promise.resolve({ numPages: pageCount, getPage }) }),
+    };
+    return { pdfjsLib, render };
+  }
+
+  it('rasterises each page once for all scales and text analysis', async () => {
+    const pages = 3;
+    const { pdfjsLib, render } = textPdfjs(pages);
+    const result = await new PDFAnalyzer({ pdfjsLib }).analyzePDF(pdfFile(), {
+      maxRenderScale: 3,
+    });
+
+    // Rasterisation cost grows with the rendered area; the three check scales plus the 3x text
+    // render used to rasterise each 20x20 page four times.
+    const area = (size: number) => size * size;
+    const fourRenders = pages * [1, 1.5, 2, 3].reduce((sum, scale) => sum + area(20 * scale), 0);
+    const rendered = render.mock.calls.reduce(
+      (sum, [params]: any[]) => sum + params.viewport.width * params.viewport.height,
+      0,
+    );
+    expect(render).toHaveBeenCalledTimes(pages);
+    expect(rendered).toBe(pages * area(60));
+    expect(rendered / fourRenders).toBeLessThan(0.6);
+    expect(render.mock.calls.map(([params]: any[]) => params.viewport.width)).toEqual([60, 60, 60]);
+    const [page] = result.pageResults ?? [];
+    expect(page.metrics.scaleResults?.map((s) => s.scale)).toEqual([1, 1.5, 2]);
+    expect(page.metrics.pdfPageMetrics?.width).toBe(40);
+    expect(page.metrics.textSharpness).toBeDefined();
+  });
+});
+
+describe('PDFAnalyzer render scales', () => {
+  function sizedPdfjs(widthPoints: number, heightPoints: number) {
+    const render = jest.fn(() => ({ promise: Promise.resolve() }));
+    const getPage = jest.fn(async () => ({
+      rotate: 0,
+      getViewport: ({ scale }: { scale: number }) => ({
+        width: widthPoints * scale,
+        height: heightPoints * scale,
+        rotation: 0,
+      }),
+      render,
+      getTextContent: async () => ({ items: [] }),
+    }));
+    const pdfjsLib = {
+      GlobalWorkerOptions: { workerSrc: '' },
+      getDocument: () => ({ promise: Promise.resolve({ numPages: 1, getPage }) }),
+    };
+    return { pdfjsLib, render };
+  }
+
+  it('renders at a DPI target and reports the physical page size', async () => {
+    const { pdfjsLib, render } = sizedPdfjs(252, 144);
+    const result = await new PDFAnalyzer({ pdfjsLib }).analyzePDF(pdfFile(), { renderDpi: 150 });
+    const metrics = result.pageResults?.[0].metrics.pdfPageMetrics;
+
+    expect(render.mock.calls.map(([params]: any[]) => params.viewport.width)).toEqual([525]);
+    expect(metrics?.pageSize).toEqual({
+      widthPoints: 252,
+      heightPoints: 144,
+      widthInches: 3.5,
+      heightInches: 2,
+    });
+    expect(metrics?.effectiveDpi).toBe(150);
+    expect(metrics?.width).toBe(525);
+  });
+
+  it('accepts explicit render scales and reports the DPI of each', async () => {
+    const { pdfjsLib } = sizedPdfjs(144, 144);
+    const result = await new PDFAnalyzer({ pdfjsLib }).analyzePDF(pdfFile(), {
+      renderScales: [1, 0.5],
+    });
+    const scaleResults = result.pageResults?.[0].metrics.scaleResults;
+
+    expect(scaleResults?.map((s) => [s.scale, s.effectiveDpi])).toEqual([
+      [0.5, 36],
+      [1, 72],
+    ]);
+  });
+
+  it('caps configured scales with maxRenderScale', async () => {
+    const { pdfjsLib } = sizedPdfjs(72, 72);
+    const result = await new PDFAnalyzer({ pdfjsLib }).analyzePDF(pdfFile(), {
+      renderDpi: [72, 144, 300],
+      maxRenderScale: 2,
+    });
+    expect(result.pageResults?.[0].metrics.scaleResults?.map((s) => s.effectiveDpi)).toEqual([
+      72, 144,
+    ]);
+  });
+});
+
+describe('PDFAnalyzer embedded scan images', () => {
+  const OPS = {
+    save: 10,
+    restore: 11,
+    transform: 12,
+    paintFormXObjectBegin: 74,
+    paintFormXObjectEnd: 75,
+    paintJpegXObject: 82,
+    paintImageXObject: 85,
+    paintInlineImageXObject: 86,
+  };
+
+  function scannedPdfjs(operatorList: { fnArray: number[]; argsArray: any[][] }) {
+    const getPage = jest.fn(async () => ({
+      rotate: 0,
+      getViewport: ({ scale }: { scale: number }) => ({
+        width: 612 * scale,
+        height: 792 * scale,
+        rotation: 0,
+      }),
+      render: () => ({ promise: Promise.resolve() }),
+      getTextContent: async () => ({ items: [] }),
+      getOperatorList: jest.fn(async () => operatorList),
+    }));
+    return {
+      OPS,
+      GlobalWorkerOptions: { workerSrc: '' },
+      getDocument: () => ({ promise: Promise.resolve({ numPages: 1, getPage }) }),
+    };
+  }
+
+  it('reports the DPI of full-page scans and ignores small images', async () => {
+    const pdfjsLib = scannedPdfjs({
+      fnArray: [
+        OPS.save,
+        OPS.transform,
+        OPS.paintImageXObject,
+        OPS.restore,
+        OPS.save,
+        OPS.transform,
+        OPS.paintJpegXObject,
+        OPS.restore,
+      ],
+      argsArray: [
+        [],
+        [612, 0, 0, 792, 0, 0],
+        ['img_p0_1', 612, 792],
+        [],
+        [],
+        [72, 0, 0, 36, 20, 20],
+        ['img_p0_2', 600, 300],
+        [],
+      ],
+    });
+    const result = await new PDFAnalyzer({ pdfjsLib }).analyzePDF(pdfFile(), {
+      renderScales: [0.25],
+      scanResolution: true,
+    });
+    const metrics = result.pageResults?.[0].metrics.pdfPageMetrics;
+
+    expect(metrics?.embeddedImages).toHaveLength(2);
+    expect(metrics?.embeddedImages?.[0]).toMatchObject({ dpi: 72, pageCoverage: 1 });
+    expect(metrics?.embeddedImages?.[1]).toMatchObject({ dpi: 600 });
+    expect(metrics?.scanDpi).toBe(72);
+  });
+
+  it('applies form XObject matrices and inline image sizes', async () => {
+    const pdfjsLib = scannedPdfjs({
+      fnArray: [
+        OPS.paintFormXObjectBegin,
+        OPS.transform,
+        OPS.paintInlineImageXObject,
+        OPS.paintFormXObjectEnd,
+      ],
+      argsArray: [
+        [
+          [0.5, 0, 0, 0.5, 0, 0],
+          [0, 0, 612, 792],
+        ],
+        [1224, 0, 0, 1584, 0, 0],
+        [{ width: 2550, height: 3300 }],
+        [],
+      ],
+    });
+    const result = await new PDFAnalyzer({ pdfjsLib }).analyzePDF(pdfFile(), {
+      renderScales: [0.25],
+      scanResolution: true,
+    });
+    expect(result.pageResults?.[0].metrics.pdfPageMetrics?.scanDpi).toBe(300);
+  });
+
+  it('leaves scanDpi unset for pages without images', async () => {
+    const pdfjsLib = scannedPdfjs({ fnArray: [], argsArray: [] });
+    const result = await new PDFAnalyzer({ pdfjsLib }).analyzePDF(pdfFile(), {
+      renderScales: [0.25],
+      scanResolution: true,
+    });
+    expect(result.pageResults?.[0].metrics.pdfPageMetrics?.embeddedImages).toEqual([]);
+    expect(result.pageResults?.[0].metrics.pdfPageMetrics?.scanDpi).toBeUndefined();
+  });
+
+  it('does not read the operator list unless scanResolution is requested', async () => {
+    const pdfjsLib = scannedPdfjs({
+      fnArray: [OPS.paintImageXObject],
+      argsArray: [['img_p0_1', 612, 792]],
+    });
+    const result = await new PDFAnalyzer({ pdfjsLib }).analyzePDF(pdfFile(), {
+      renderScales: [0.25],
+    });
+    const { getPage } = await pdfjsLib.getDocument().promise;
+    const page = await getPage.mock.results[0].value;
+
+    expect(page.getOperatorList).not.toHaveBeenCalled();
+    expect(result.pageResults?.[0].metrics.pdfPageMetrics?.embeddedImages).toBeUndefined();
+  });
+});
+
+describe('PDFAnalyzer encrypted documents', () => {
+  function lockedPdfjs(permissions: number[] | null = null, password = 'secret') {
+    const doc = {
+      numPages: 0,
+      getPage: jest.fn(),
+      getPermissions: async () => permissions,
+    };
+    return {
+      GlobalWorkerOptions: { workerSrc: '' },
+      getDocument: jest.fn((params: { password?: string }) => ({
+        promise:
+          params.password === password
+            ? Promise.resolve(doc)
+            : Promise.reject(
+                Object.assign(new Error('No password given'), {
+                  name: 'PasswordException',
+                  code: params.password === undefined ? 1 : 2,
+                }),
+              ),
+      })),
+    };
+  }
+
+  it('rejects with a typed error when a password is needed', async () => {
+    const analysis = new PDFAnalyzer({ pdfjsLib: lockedPdfjs() }).analyzePDF(pdfFile());
+    await expect(analysis).rejects.toBeInstanceOf(PDFPasswordError);
+    await expect(analysis).rejects.toMatchObject({ reason: 'password_required' });
+  });
+
+  it('distinguishes an incorrect password', async () => {
+    await expect(
+      new PDFAnalyzer({ pdfjsLib: lockedPdfjs() }).analyzePDF(pdfFile(), { password: 'nope' }),
+    ).rejects.toMatchObject({ reason: 'incorrect_password' });
+  });
+
+  it('opens the document with the supplied password and reports permissions', async () => {
+    const pdfjsLib = lockedPdfjs([0x04, 0x800]);
+    const result = await new PDFAnalyzer({ pdfjsLib }).analyzePDF(pdfFile(), {
+      password: 'secret',
+    });
+    expect(pdfjsLib.getDocument).toHaveBeenCalledWith(
+      expect.objectContaining({ password: 'secret' }),
+    );
+    expect(result.permissions).toMatchObject({
+      restricted: true,
+      print: true,
+      printHighQuality: true,
+      copy: false,
+      modify: false,
+    });
+  });
+
+  it('reports no restrictions when pdf.js returns null permissions', async () => {
+    const result = await new PDFAnalyzer({ pdfjsLib: lockedPdfjs(null) }).analyzePDF(pdfFile(), {
+      password: 'secret',
+    });
+    expect(result.permissions?.restricted).toBe(false);
+    expect(result.permissions?.copy).toBe(true);
+  });
+});
+
+describe('PDFAnalyzer security scan', () => {
+  function scannedPdf(source: string, doc: Record<string, unknown> = {}, page = {}) {
+    const file = new File([source], 'doc.pdf', { type: 'application/pdf' });
+    const bytes = Uint8Array.from(source, (c) => c.charCodeAt(0));
+    Object.defineProperty(file, 'arrayBuffer', { value: async () => bytes.buffer });
+    const pdfjsLib = {
+      GlobalWorkerOptions: { workerSrc: '' },
+      getDocument: () => ({
+        promise: Promise.resolve({
+          numPages: 1,
+          getPage: async () => ({
+            rotate: 0,
+            getViewport: ({ scale }: { scale: number }) => ({
+              width: 20 * scale,
+              height: 20 * scale,
+              rotation: 0,
+            }),
+            render: () => ({ promise: Promise.resolve() }),
+            getTextContent: async () => ({ items: [] }),
+            ...page,
+          }),
+          ...doc,
+        }),
+      }),
+    };
+    return new PDFAnalyzer({ pdfjsLib }).analyzePDF(file, { maxRenderScale: 1 });
+  }
+
+  it('reports a clean document', async () => {
+    const { security } = await scannedPdf('%PDF-1.7\n1 0 obj << /Type /Catalog >> endobj\n%%EOF');
+    expect(security).toEqual({
+      hasActiveContent: false,
+      javascript: false,
+      launchActions: false,
+      xfa: false,
+      hasAttachments: false,
+      attachments: [],
+    });
+  });
+
+  it('finds launch actions and XFA forms in the raw file', async () => {
+    const { security } = await scannedPdf(
+      '%PDF-1.7\n<< /OpenAction << /S /Launch /F (cmd.exe) >> /AcroForm << /XFA 5 0 R >> >>',
+    );
+    expect(security).toMatchObject({ hasActiveContent: true, launchActions: true, xfa: true });
+    expect(security?.javascript).toBe(false);
+  });
+
+  it('does not mistake longer names for /JS', async () => {
+    const { security } = await scannedPdf('%PDF-1.7\n<< /JSON 1 /JSTransform 2 >>');
+    expect(security?.javascript).toBe(false);
+  });
+
+  it('uses pdf.js for document scripts, attachments and annotations', async () => {
+    const { security } = await scannedPdf(
+      '%PDF-1.7',
+      {
+        getJSActions: async () => ({ OpenAction: ['app.alert(1)'] }),
+        getAttachments: async () => ({ 'invoice.xml': { filename: 'invoice.xml' } }),
+      },
+      {
+        getAnnotations: async () => [
+          { subtype: 'FileAttachment', file: { filename: 'payload.exe' } },
+          { subtype: 'Link', url: 'https://example.com' },
+        ],
+      },
+    );
+    expect(security).toMatchObject({
+      hasActiveContent: true,
+      javascript: true,
+      hasAttachments: true,
+      attachments: ['invoice.xml', 'payload.exe'],
+    });
+  });
+
+  it('flags JavaScript actions on page annotations', async () => {
+    const { security } = await scannedPdf(
+      '%PDF-1.7',
+      {},
+      {
+        getAnnotations: async () => [
+          { subtype: 'Widget', actions: { Action: ['this.submitForm()'] } },
+        ],
+      },
+    );
+    expect(security?.javascript).toBe(true);
+  });
+});
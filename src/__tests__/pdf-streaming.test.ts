@@ -0,0 +1,81 @@
+import { PDFAnalyzer } from '../pdf-analyzer';
+import { validatePDFPages } from '../index';
+import type { PDFProgressEvent } from '../types';
+
+function fakePdfjs(pageCount: number) {
+  const getPage = jest.fn(async (_pageNumber: number) => ({
+    rotate: 0,
+    getViewport: ({ scale }: { scale: number }) => ({
+      width: 20 * scale,
+      height: 20 * scale,
+      rotation: 0,
+    }),
+    render: () => ({ promise: Promise.resolve() }),
+    getTextContent: async () => ({ items: [] }),
+  }));
+  const pdfjsLib = {
+    GlobalWorkerOptions: { workerSrc: '' },
+    getDocument: () => ({ promise: Promise.resolve({ numPages: pageCount, getPage }) }),
+  };
+  return { pdfjsLib, getPage };
+}
+
+function pdfFile(): File {
+  const source = '%PDF-1.7\nstartxref\n0\n%%EOF\n';
+  const file = new File([source], 'doc.pdf', { type: 'application/pdf' });
+  const bytes = Uint8Array.from(source, (c) => c.charCodeAt(0));
+  Object.defineProperty(file, 'arrayBuffer', { value: async () => new ArrayBuffer(8) });
+  Object.defineProperty(file, 'slice', {
+    value: (start?: number, end?: number) => ({
+      arrayBuffer: async () => bytes.slice(start, end).buffer,
+    }),
+  });
+  return file;
+}
+
+describe('PDF progress and streaming', () => {
+  it('reports progress for each analysis stage', async () => {
+    const { pdfjsLib } = fakePdfjs(2);
+    const events: PDFProgressEvent[] = [];
+    await new PDFAnalyzer({ pdfjsLib }).analyzePDF(pdfFile(), {
+      maxRenderScale: 1,
+      onProgress: (event) => events.push(event),
+    });
+    expect(events.map((e) => [e.page, e.stage])).toEqual([
+      [0, 'loading'],
+      [1, 'rendering'],
+      [1, 'page-complete'],
+      [2, 'rendering'],
+      [2, 'page-complete'],
+      [2, 'complete'],
+    ]);
+    expect(events.slice(1).every((e) => e.totalPages === 2)).toBe(true);
+    expect(events.every((e) => e.elapsedMs >= 0)).toBe(true);
+  });
+
+  it('yields each page result before the aggregate', async () => {
+    const { pdfjsLib } = fakePdfjs(3);
+    const items = [];
+    for await (const item of validatePDFPages(pdfFile(), {
+      pdfjsLib,
+      samplePages: [2, 3],
+      maxRenderScale: 1,
+    }))
+      items.push(item);
+
+    expect(items).toHaveLength(3);
+    expect(items.slice(0, 2).map((item) => 'page' in item && item.page)).toEqual([2, 3]);
+    const aggregate = items[2];
+    expect('type' in aggregate && aggregate.type).toBe('pdf');
+    expect('pages' in aggregate && aggregate.pages?.map((p) => p.page)).toEqual([2, 3]);
+  });
+
+  it('stops rendering when the consumer breaks out early', async () => {
+    const { pdfjsLib, getPage } = fakePdfjs(3);
+    for await (const item of validatePDFPages(pdfFile(), { pdfjsLib, maxRenderScale: 1 }))
+      if ('page' in item) break;
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(getPage.mock.calls.map(([n]) => n)).not.toContain(3);
+  });
+});
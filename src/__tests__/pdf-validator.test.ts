@@ -1,14 +1,22 @@
 import { validatePDFQuality } from '../validators/pdf-quality-validator';
-import type { PDFAnalysisResult, BlurAnalysisResult } from '../types';
+import { BLUR_TYPE_RECOMMENDATIONS, ISSUE_CATALOG } from '../issue-catalog';
+import { PDFPasswordError } from '../errors';
+import type {
+  PDFAnalysisResult,
+  BlurAnalysisResult,
+  PDFPerformanceOptions,
+  PDFSecurityScan,
+  QualityCheckName,
+} from '../types';
 
 jest.mock('../pdf-analyzer', () => {
   const original = jest.requireActual('../pdf-analyzer');
   return {
     ...original,
     PDFAnalyzer: class extends original.PDFAnalyzer {
-      async analyzePDF(): Promise<PDFAnalysisResult> {
+      async analyzePDF(...args: unknown[]): Promise<PDFAnalysisResult> {
         const fn = (globalThis as any).__mockAnalyzePDF;
-        if (fn) return await fn();
+        if (fn) return await fn(...args);
         throw new Error('No mock registered');
       }
     },
@@ -46,6 +54,8 @@ function page(o: {
   cBrightness?: number;
   nonWhite?: number;
   glare?: number;
+  blurryTileRatio?: number;
+  scanDpi?: number;
 }): BlurAnalysisResult {
   const w = o.w ?? 1200;
   const h = o.h ?? 1600;
@@ -57,6 +67,18 @@ function page(o: {
     method: 'edge',
     metrics: {
       edgeAnalysis: { width: w, height: h, numEdges: 200, avgEdgeWidth: 2, avgEdgeWidthPerc: 0.15 },
+      sharpnessMap:
+        o.blurryTileRatio === undefined
+          ? undefined
+          : {
+              rows: 4,
+              cols: 4,
+              tiles: [],
+              contentTiles: 16,
+              blurryTiles: Math.round(16 * o.blurryTileRatio),
+              blurryRatio: o.blurryTileRatio,
+              isPartiallyBlurry: o.blurryTileRatio >= 0.25,
+            },
       contentAnalysis: {
         isLikelyHeaderPage: o.headerPage ?? false,
         textDensity: o.lowText ? 5 : 30,
@@ -78,6 +100,7 @@ function page(o: {
         contentBrightness: o.cBrightness ?? 120,
         contentContrast: o.cContrast ?? 45,
         glarePixelRatio: o.glare ?? 0.01,
+        scanDpi: o.scanDpi,
         documentFrame: {
           detected: true,
           marginRatios: o.margins ?? { top: 0.05, right: 0.05, bottom: 0.05, left: 0.05 },
@@ -98,6 +121,7 @@ function pdf(p: {
   textLen?: number;
   pages?: BlurAnalysisResult[];
   corrupt?: Array<{ page: number; error: string }>;
+  security?: Partial<PDFSecurityScan>;
 }): () => Promise<PDFAnalysisResult> {
   return async () => ({
     isQualityGood: p.good ?? true,
@@ -106,6 +130,15 @@ function pdf(p: {
     textLength: p.textLen ?? 500,
     pageResults: p.pages ?? [],
     corruptedPages: p.corrupt,
+    security: p.security && {
+      hasActiveContent: false,
+      javascript: false,
+      launchActions: false,
+      xfa: false,
+      hasAttachments: false,
+      attachments: [],
+      ...p.security,
+    },
   });
 }
 
@@ -312,6 +345,26 @@ describe('validatePDFQuality', () => {
     expect(r.pages?.[0].checks.brightness?.ok).toBe(false);
   });
 
+  it('recommends refocusing for defocused pages', async () => {
+    const blurred = page({ isBlurry: true });
+    blurred.metrics.blurClassification = { type: 'defocus', anisotropy: 0.1 };
+    (globalThis as any).__mockAnalyzePDF = pdf({ pages: [blurred] });
+    const r = await validatePDFQuality(file, { mode: 'document' });
+    expect(r.issues).toContain('blurry');
+    expect(r.recommendations).toContain(BLUR_TYPE_RECOMMENDATIONS.defocus);
+    expect(r.recommendations).not.toContain(BLUR_TYPE_RECOMMENDATIONS.motion);
+  });
+
+  it('fails partially blurry pages with partial_blur instead of blurry', async () => {
+    (globalThis as any).__mockAnalyzePDF = pdf({ pages: [page({ blurryTileRatio: 0.5 })] });
+    const r = await validatePDFQuality(file, { mode: 'document' });
+    expect(r.ok).toBe(false);
+    expect(r.issues).toContain('partial_blur');
+    expect(r.issues).not.toContain('blurry');
+    expect(r.checks.sharpness?.message).toBe('One or more pages are partly blurry.');
+    expect(r.pages?.[0].checks.sharpness?.details).toMatchObject({ blurryTileRatio: 0.5 });
+  });
+
   it('returns corrupted_pdf for unreadable PDF', async () => {
     (globalThis as any).__mockAnalyzePDF = async () => {
       throw new Error('Failed to read PDF');
@@ -321,6 +374,21 @@ describe('validatePDFQuality', () => {
     expect(r.issues).toContain('corrupted_pdf');
   });
 
+  it('reports password_protected_pdf instead of corrupted_pdf for encrypted files', async () => {
+    (globalThis as any).__mockAnalyzePDF = async () => {
+      throw new PDFPasswordError('incorrect_password');
+    };
+    const r = await validatePDFQuality(file, { mode: 'document', password: 'guess' });
+    expect(r.ok).toBe(false);
+    expect(r.issues).toEqual(['password_protected_pdf']);
+    expect(r.recommendations).toEqual([ISSUE_CATALOG.password_protected_pdf.recommendation]);
+    expect(r.checks.encryption?.details).toMatchObject({
+      reason: 'incorrect_password',
+      passwordProvided: true,
+    });
+    expect(r.checks.corruptedPages).toBeUndefined();
+  });
+
   it('fails low_resolution when both dimensions are below minimums', async () => {
     (globalThis as any).__mockAnalyzePDF = pdf({ pages: [page({ w: 500, h: 500 })] });
     const r = await validatePDFQuality(file, { mode: 'document', minWidth: 1000, minHeight: 1000 });
@@ -328,6 +396,83 @@ describe('validatePDFQuality', () => {
     expect(r.issues).toContain('low_resolution');
   });
 
+  it('fails low_scan_dpi when the embedded scan is below the mode minimum', async () => {
+    (globalThis as any).__mockAnalyzePDF = pdf({ scanned: true, pages: [page({ scanDpi: 72 })] });
+    const r = await validatePDFQuality(file, { mode: 'document', checks: ['scanResolution'] });
+    expect(r.ok).toBe(false);
+    expect(r.issues).toContain('low_scan_dpi');
+    expect(r.pages?.[0].checks.scanResolution?.details).toMatchObject({
+      scanDpi: 72,
+      minScanDpi: 200,
+    });
+    expect(r.checks.scanResolution?.ok).toBe(false);
+  });
+
+  it('uses the per-mode minScanDpi and skips the check for digital pages', async () => {
+    (globalThis as any).__mockAnalyzePDF = pdf({ scanned: true, pages: [page({ scanDpi: 200 })] });
+    const checks: QualityCheckName[] = ['scanResolution'];
+    expect((await validatePDFQuality(file, { mode: 'document', checks })).issues).not.toContain(
+      'low_scan_dpi',
+    );
+    expect((await validatePDFQuality(file, { mode: 'ocr', checks })).issues).toContain(
+      'low_scan_dpi',
+    );
+
+    (globalThis as any).__mockAnalyzePDF = pdf({ pages: [page({})] });
+    const digital = await validatePDFQuality(file, { mode: 'ocr', checks });
+    expect(digital.checks.scanResolution).toBeUndefined();
+    expect(digital.pages?.[0].checks.scanResolution).toBeUndefined();
+  });
+
+  it('measures scan DPI only when the check or minScanDpi is requested', async () => {
+    const analyze = jest.fn((_file: File, _options?: PDFPerformanceOptions) =>
+      pdf({ scanned: true, pages: [page({})] })(),
+    );
+    (globalThis as any).__mockAnalyzePDF = analyze;
+    await validatePDFQuality(file, { mode: 'ocr' });
+    await validatePDFQuality(file, { mode: 'ocr', checks: ['scanResolution'] });
+    await validatePDFQuality(file, { mode: 'ocr', minScanDpi: 150 });
+    expect(analyze.mock.calls.map((call) => call[1]?.scanResolution)).toEqual([false, true, true]);
+  });
+
+  it('blocks PDFs with scripts or launch actions', async () => {
+    (globalThis as any).__mockAnalyzePDF = pdf({
+      pages: [page({})],
+      security: { hasActiveContent: true, launchActions: true },
+    });
+    const r = await validatePDFQuality(file, { mode: 'document' });
+    expect(r.ok).toBe(false);
+    expect(r.issues).toContain('pdf_active_content');
+    expect(r.checks.pdfSecurity).toMatchObject({ ok: false, details: { launchActions: true } });
+  });
+
+  it('makes attachment blocking configurable per mode and per call', async () => {
+    (globalThis as any).__mockAnalyzePDF = pdf({
+      pages: [page({})],
+      security: { hasAttachments: true, attachments: ['payload.exe'] },
+    });
+    const general = await validatePDFQuality(file, { mode: 'general' });
+    expect(general.issues).not.toContain('pdf_attachments');
+    expect(general.warnings).toContain('pdf_attachments');
+    expect(general.checks.pdfSecurity?.ok).toBe(true);
+
+    expect((await validatePDFQuality(file, { mode: 'document' })).issues).toContain(
+      'pdf_attachments',
+    );
+    const allowed = await validatePDFQuality(file, {
+      mode: 'document',
+      blockPdfAttachments: false,
+    });
+    expect(allowed.issues).not.toContain('pdf_attachments');
+  });
+
+  it('passes a clean security scan', async () => {
+    (globalThis as any).__mockAnalyzePDF = pdf({ pages: [page({})], security: {} });
+    const r = await validatePDFQuality(file, { mode: 'document' });
+    expect(r.checks.pdfSecurity).toMatchObject({ ok: true, score: 100 });
+    expect(r.warnings).not.toContain('pdf_active_content');
+  });
+
   it('passes spoofed-pdf.pdf as valid (text signals non-blocking in document mode)', async () => {
     (globalThis as any).__mockAnalyzePDF = pdf({
       scanned: false,
@@ -0,0 +1,210 @@
+import { BlurryCheck, WorkerClient, createWorkerClient } from '../index';
+import { PDFPasswordError } from '../errors';
+import { configureRuntime } from '../runtime';
+import { handleWorkerRequest } from '../worker';
+import type { WorkerRequest } from '../worker-client';
+
+function createDocumentImageData(): ImageData {
+  const width = 400;
+  const height = 300;
+  const data = new Uint8ClampedArray(width * height * 4).fill(255);
+  for (let y = 40; y < 260; y += 20) {
+    for (let x = 40; x < 360; x++) {
+      for (let thickness = 0; thickness < 2; thickness++) {
+        const index = ((y + thickness) * width + x) * 4;
+        data[index] = 0;
+        data[index + 1] = 0;
+        data[index + 2] = 0;
+      }
+    }
+  }
+  return new ImageData(data, width, height);
+}
+
+class InProcessWorker {
+  static instances: InProcessWorker[] = [];
+  posted: Array<{ request: WorkerRequest; transfer: Transferable[] }> = [];
+  private listeners: Record<string, Array<(event: any) => void>> = {};
+
+  constructor(
+    public url: string,
+    private failToLoad = false,
+  ) {
+    InProcessWorker.instances.push(this);
+    setTimeout(() => {
+      if (this.failToLoad) this.emit('error', { message: 'Failed to load worker script' });
+      else this.emit('message', { data: { ready: true } });
+    }, 0);
+  }
+
+  addEventListener(type: string, listener: (event: any) => void) {
+    (this.listeners[type] ??= []).push(listener);
+  }
+
+  postMessage(request: WorkerRequest, transfer: Transferable[] = []) {
+    this.posted.push({ request, transfer });
+    handleWorkerRequest(request).then((data) => this.emit('message', { data }));
+  }
+
+  terminate() {}
+
+  private emit(type: string, event: unknown) {
+    for (const listener of this.listeners[type] ?? []) listener(event);
+  }
+}
+
+describe('worker execution mode', () => {
+  const originalWorker = (globalThis as any).Worker;
+
+  afterEach(() => {
+    (globalThis as any).Worker = originalWorker;
+    InProcessWorker.instances = [];
+  });
+
+  it('returns null from createWorkerClient when workers are unavailable', () => {
+    delete (globalThis as any).Worker;
+    expect(createWorkerClient('/assets/blurry-check-worker.js')).toBeNull();
+  });
+
+  it('falls back to in-thread analysis when workers are unavailable', async () => {
+    delete (globalThis as any).Worker;
+    const inThread = await new BlurryCheck().validateImage(createDocumentImageData());
+    const result = await new BlurryCheck({
+      worker: '/assets/blurry-check-worker.js',
+    }).validateImage(createDocumentImageData());
+    expect(result).toEqual(inThread);
+  });
+
+  it('returns identical results from the worker and transfers the pixel buffer', async () => {
+    (globalThis as any).Worker = InProcessWorker;
+    const input = createDocumentImageData();
+    const client = new WorkerClient(new InProcessWorker('worker.js') as unknown as Worker);
+
+    const inThread = await new BlurryCheck().validateImage(input, { mode: 'document' });
+    const viaWorker = await new BlurryCheck({ worker: client }).validateImage(input, {
+      mode: 'document',
+    });
+
+    expect(viaWorker).toEqual(inThread);
+    const [{ request, transfer }] = InProcessWorker.instances[0].posted;
+    expect(request.task).toBe('validateImage');
+    expect(transfer).toEqual([request.payload.imageData.data.buffer]);
+    expect(request.payload.imageData).not.toBe(input);
+  });
+
+  it('runs blur analysis in the worker', async () => {
+    const client = new WorkerClient(new InProcessWorker('worker.js') as unknown as Worker);
+    const input = createDocumentImageData();
+    const inThread = await new BlurryCheck().analyzeImage(input);
+    const viaWorker = await new BlurryCheck({ worker: client }).analyzeImage(input);
+    expect(viaWorker).toEqual(inThread);
+    expect(InProcessWorker.instances[0].posted[0].request.task).toBe('analyzeImage');
+  });
+
+  it('falls back in-thread when the worker script fails to load', async () => {
+    const client = new WorkerClient(new InProcessWorker('worker.js', true) as unknown as Worker);
+    const input = createDocumentImageData();
+    const inThread = await new BlurryCheck().validateImage(input);
+    const result = await new BlurryCheck({ worker: client }).validateImage(input);
+    expect(result).toEqual(inThread);
+    expect(InProcessWorker.instances[0].posted).toHaveLength(0);
+  });
+
+  it('surfaces analysis errors raised inside the worker', async () => {
+    const client = new WorkerClient(new InProcessWorker('worker.js') as unknown as Worker);
+    await expect(
+      client.run('analyzeRenderedPage', { imageData: null, config: {} }, [], async () => null),
+    ).rejects.toThrow();
+  });
+
+  it('requires an explicit worker URL', () => {
+    expect(() => new BlurryCheck({ worker: true as any })).toThrow(
+      'The worker option needs the URL of a self-hosted lib/worker.js',
+    );
+  });
+
+  it('stops waiting for a task after workerTimeoutMs', async () => {
+    const silent = new InProcessWorker('worker.js');
+    silent.postMessage = () => {};
+    const client = new WorkerClient(silent as unknown as Worker);
+    await expect(
+      client.analyzeImage(createDocumentImageData(), { workerTimeoutMs: 20 }),
+    ).rejects.toThrow('Analysis worker did not answer within 20 ms');
+  });
+
+  it('rebuilds typed errors raised inside the worker', async () => {
+    const worker = new InProcessWorker('worker.js');
+    worker.postMessage = (request: WorkerRequest) =>
+      setTimeout(() =>
+        (worker as any).emit('message', {
+          data: {
+            id: request.id,
+            error: { name: 'PDFPasswordError', message: '', reason: 'incorrect_password' },
+          },
+        }),
+      );
+    const client = new WorkerClient(worker as unknown as Worker);
+    const error = await client
+      .run('textSharpness', {}, [], async () => null)
+      .catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(PDFPasswordError);
+    expect(error).toMatchObject({
+      reason: 'incorrect_password',
+      message: 'Incorrect PDF password',
+    });
+  });
+
+  describe('with a worker that decodes files', () => {
+    // Announces createImageBitmap/OffscreenCanvas support and answers with a canned result.
+    function decodingWorker() {
+      const worker = new InProcessWorker('worker.js');
+      (worker as any).emit = function (type: string, event: any) {
+        if (event?.data?.ready) event = { data: { ready: true, decodes: true } };
+        for (const listener of (this as any).listeners[type] ?? []) listener(event);
+      };
+      worker.postMessage = (request: WorkerRequest, transfer: Transferable[] = []) => {
+        worker.posted.push({ request, transfer });
+        setTimeout(() =>
+          (worker as any).emit('message', { data: { id: request.id, result: { ok: true } } }),
+        );
+      };
+      return worker;
+    }
+    const png = () => new File([new Uint8Array(64)], 'photo.png', { type: 'image/png' });
+    afterEach(() => configureRuntime({ decodeImage: undefined }));
+
+    it('posts files undecoded so the worker decodes them', async () => {
+      const worker = decodingWorker();
+      const client = new WorkerClient(worker as unknown as Worker);
+      const file = png();
+      await client.validateImage(file, { mode: 'document' });
+      await client.analyzeImage(file);
+      const [validate, analyze] = worker.posted;
+      expect(validate.request.payload.file).toBe(file);
+      expect(validate.request.payload.options).toMatchObject({ mode: 'document' });
+      expect(validate.request.payload.imageData).toBeUndefined();
+      expect(validate.transfer).toEqual([]);
+      expect(analyze.request.task).toBe('analyzeImage');
+      expect(analyze.request.payload.file).toBe(file);
+    });
+
+    it('decodes on this thread when a runtime decoder is configured', async () => {
+      const decodeImage = jest.fn(async () => createDocumentImageData());
+      configureRuntime({ decodeImage });
+      const worker = decodingWorker();
+      const client = new WorkerClient(worker as unknown as Worker);
+      await client.analyzeImage(png());
+      expect(decodeImage).toHaveBeenCalled();
+      expect(worker.posted[0].request.payload.imageData).toMatchObject({ width: 400 });
+    });
+  });
+
+  it('serializes the error name and reason in worker responses', async () => {
+    const response = await handleWorkerRequest({ id: 1, task: 'unknown' as any, payload: {} });
+    expect(response.error).toEqual({
+      name: 'Error',
+      message: 'Unknown worker task: unknown',
+      reason: undefined,
+    });
+  });
+});
@@ -1,11 +1,53 @@
 import { Filters } from './filters';
+import { SharpnessMetrics } from './sharpness-metrics';
 import { OpenCVLoader } from './opencv-loader';
-import { LOW_EDGE_COUNT_DIVISOR } from './constants';
-import type { BlurDetectionConfig, BlurAnalysisResult, ImageInput } from './types';
-import { createCanvas, getImageDataFromInput } from './image-utils';
+import {
+  LOW_EDGE_COUNT_DIVISOR,
+  TILE_CONTENT_MIN_STDDEV,
+  MOTION_BLUR_ANISOTROPY_MIN,
+  DEFAULT_OPENCV_URL,
+} from './constants';
+import { AnalysisAbortedError, abortCheckpoint, throwIfAborted } from './errors';
+import type {
+  AbortOptions,
+  BlurDetectionConfig,
+  BlurAnalysisResult,
+  EdgeAnalysis,
+  ImageInput,
+  SharpnessMetricName,
+} from './types';
+import {
+  cropImageData,
+  decodeImagePages,
+  getImageDataFromInput,
+  resampleImageData,
+  resampleMask,
+  resolveRegion,
+} from './image-utils';
+import { score } from './utils';
+
+type OptionalSettings =
+  | 'tileGrid'
+  | 'roi'
+  | 'workingSize'
+  | 'maxPixels'
+  | 'canvas'
+  | 'openCvModule'
+  | 'openCvIntegrity'
+  | 'openCvTimeoutMs'
+  | 'nonce';
+type UnusedSettings =
+  | 'worker'
+  | 'workerTimeoutMs'
+  | 'pdfjsLib'
+  | 'pdfjsUrl'
+  | 'pdfjsWorkerUrl'
+  | 'pdfjsIntegrity';
+type DetectorSettings = Required<Omit<BlurDetectionConfig, OptionalSettings | UnusedSettings>> &
+  Pick<BlurDetectionConfig, OptionalSettings>;
 
 export class BlurDetector {
-  private config: Required<BlurDetectionConfig>;
+  private config: DetectorSettings;
   private openCvLoader: OpenCVLoader;
 
   constructor(config: BlurDetectionConfig = {}) {
@@ -13,20 +55,40 @@ export class BlurDetector {
       edgeWidthThreshold: config.edgeWidthThreshold ?? 0.3,
       laplacianThreshold: config.laplacianThreshold ?? 150,
       method: config.method ?? 'both',
-      openCvUrl: config.openCvUrl ?? 'https://docs.opencv.org/4.5.4/opencv.js',
-      canvas: config.canvas ?? createCanvas(),
+      laplacianBackend: config.laplacianBackend ?? 'js',
+      tenengradThreshold: config.tenengradThreshold ?? 40000,
+      brennerThreshold: config.brennerThreshold ?? 2500,
+      fftThreshold: config.fftThreshold ?? 0.05,
+      metrics: config.metrics ?? [],
+      tileGrid: config.tileGrid,
+      partialBlurRatio: config.partialBlurRatio ?? 0.25,
+      roi: config.roi,
+      workingSize: config.workingSize,
+      maxPixels: config.maxPixels,
+      openCvUrl: config.openCvUrl ?? DEFAULT_OPENCV_URL,
+      openCvModule: config.openCvModule,
+      openCvIntegrity: config.openCvIntegrity,
+      openCvTimeoutMs: config.openCvTimeoutMs,
+      nonce: config.nonce,
+      canvas: config.canvas,
       debug: config.debug ?? false,
     };
-    this.openCvLoader = OpenCVLoader.getInstance(this.config.openCvUrl);
+    this.openCvLoader = OpenCVLoader.getInstance(this.config.openCvUrl, {
+      cv: this.config.openCvModule,
+      integrity: this.config.openCvIntegrity,
+      nonce: this.config.nonce,
+      timeoutMs: this.config.openCvTimeoutMs,
+    });
   }
 
   private log(message: string, ...args: unknown[]) {
     if (this.config.debug) console.log(`[BlurDetector] ${message}`, ...args);
   }
 
-  private detectEdges(imageData: ImageData): ImageData {
-    const grey = Filters.luminance(imageData);
-    return Filters.convolve(grey, Filters.getFloat32Array([1, 0, -1, 2, 0, -2, 1, 0, -1]), true);
+  private detectEdges(grey: ImageData, axis: 'horizontal' | 'vertical'): ImageData {
+    const kernel =
+      axis === 'horizontal' ? [1, 0, -1, 2, 0, -2, 1, 0, -1] : [1, 2, 1, 0, 0, 0, -1, -2, -1];
+    return Filters.convolve(grey, Filters.getFloat32Array(kernel), true);
   }
 
   private reducedPixels(imageData: ImageData): Uint8ClampedArray[] {
@@ -42,20 +104,35 @@ export class BlurDetector {
     return rows;
   }
 
-  private detectBlur(pixels: Uint8ClampedArray[]) {
-    const width = pixels[0].length;
-    const height = pixels.length;
+  private reducedColumns(imageData: ImageData): Uint8ClampedArray[] {
+    const { data: pixels, width, height } = imageData;
+    const columns: Uint8ClampedArray[] = [];
+    for (let x = 0; x < width; x++) {
+      const column = new Uint8ClampedArray(height);
+      for (let y = 0; y < height; y++) column[y] = pixels[(y * width + x) * 4];
+      columns.push(column);
+    }
+    return columns;
+  }
+
+  // `inside(line, x)` limits the count to edges whose peak lies inside a region mask.
+  private detectBlur(lines: Uint8ClampedArray[], inside?: (line: number, x: number) => boolean) {
+    const length = lines[0].length;
     let numEdges = 0,
-      sumEdgeWidths = 0;
-    for (let y = 0; y < height; y++) {
+      sumEdgeWidths = 0,
+      edgeStrength = 0,
+      weightedWidths = 0;
+    for (const [index, line] of lines.entries()) {
       let edgeStart = -1;
-      for (let x = 0; x < width; x++) {
-        const val = pixels[y][x];
+      for (let x = 0; x < length; x++) {
+        const val = line[x];
         if (edgeStart >= 0 && x > edgeStart) {
-          if (val < pixels[y][x - 1]) {
-            if (pixels[y][x - 1] >= 20) {
+          if (val < line[x - 1]) {
+            if (line[x - 1] >= 20 && (!inside || inside(index, x - 1))) {
               numEdges++;
               sumEdgeWidths += x - edgeStart - 1;
+              edgeStrength += line[x - 1];
+              weightedWidths += (x - edgeStart - 1) * line[x - 1];
             }
             edgeStart = -1;
           }
@@ -63,14 +140,107 @@ export class BlurDetector {
         if (val === 0) edgeStart = x;
       }
     }
-    if (numEdges === 0) return { width, height, numEdges: 0, avgEdgeWidth: 0, avgEdgeWidthPerc: 0 };
-    const avg = sumEdgeWidths / numEdges;
-    return { width, height, numEdges, avgEdgeWidth: avg, avgEdgeWidthPerc: (avg / width) * 100 };
+    const avg = numEdges ? sumEdgeWidths / numEdges : 0;
+    return {
+      numEdges,
+      avgEdgeWidth: avg,
+      avgEdgeWidthPerc: (avg / length) * 100,
+      edgeStrength,
+      weightedWidthPerc: edgeStrength ? (weightedWidths / edgeStrength / length) * 100 : 0,
+      weightedWidth: edgeStrength ? weightedWidths / edgeStrength : 0,
+    };
+  }
+
+  private analyzeEdges(imageData: ImageData, mask?: Uint8Array): EdgeAnalysis {
+    const { width, height } = imageData;
+    const grey = Filters.luminance(imageData);
+    const h = this.detectBlur(
+      this.reducedPixels(this.detectEdges(grey, 'horizontal')),
+      mask && ((y, x) => mask[y * width + x] === 1),
+    );
+    const v = this.detectBlur(
+      this.reducedColumns(this.detectEdges(grey, 'vertical')),
+      mask && ((x, y) => mask[y * width + x] === 1),
+    );
+    const axis = (r: typeof h) => ({
+      numEdges: r.numEdges,
+      avgEdgeWidth: r.avgEdgeWidth,
+      avgEdgeWidthPerc: r.avgEdgeWidthPerc,
+      edgeStrength: r.edgeStrength,
+    });
+    // Blur along either axis widens that axis' edges, so the combined result takes the wider one.
+    const wider = v.avgEdgeWidthPerc > h.avgEdgeWidthPerc ? v : h;
+    return {
+      width,
+      height,
+      numEdges: h.numEdges,
+      avgEdgeWidth: h.avgEdgeWidth,
+      avgEdgeWidthPerc: h.avgEdgeWidthPerc,
+      horizontal: axis(h),
+      vertical: axis(v),
+      combined: {
+        numEdges: h.numEdges + v.numEdges,
+        avgEdgeWidth: wider.avgEdgeWidth,
+        avgEdgeWidthPerc: wider.avgEdgeWidthPerc,
+        edgeStrength: h.edgeStrength + v.edgeStrength,
+      },
+    };
+  }
+
+  private computes(metric: SharpnessMetricName): boolean {
+    return this.config.method === metric || this.config.metrics.includes(metric);
   }
 
-  async analyzeImage(input: ImageInput): Promise<BlurAnalysisResult> {
+  // `area` is the number of analysed pixels: the whole image, or what a region mask covers.
+  private isEdgeBlurry(edge: EdgeAnalysis, area: number): boolean {
+    const combined = edge.combined ?? edge;
+    return (
+      combined.avgEdgeWidthPerc > this.config.edgeWidthThreshold ||
+      combined.numEdges < area / LOW_EDGE_COUNT_DIVISOR
+    );
+  }
+
+  async analyzeImage(
+    input: ImageInput,
+    options: AbortOptions = {},
+    decoded?: ImageData[],
+  ): Promise<BlurAnalysisResult> {
+    const { signal } = options;
     this.log('Starting blur analysis, method:', this.config.method);
-    const imageData = await getImageDataFromInput(input, this.config.canvas);
+    throwIfAborted(signal);
+    const { canvas, maxPixels } = this.config;
+    const pages =
+      decoded ?? (input instanceof Blob ? await decodeImagePages(input, maxPixels) : null);
+    if (pages && pages.length > 1) return this.analyzePages(pages, signal);
+    return this.analyzeImageData(
+      pages?.[0] ?? (await getImageDataFromInput(input, canvas, maxPixels)),
+      signal,
+    );
+  }
+
+  // The first blurry page's result (page 1 when none is), with every page's result attached.
+  private async analyzePages(
+    pages: ImageData[],
+    signal?: AbortSignal,
+  ): Promise<BlurAnalysisResult> {
+    const results: BlurAnalysisResult[] = [];
+    for (const page of pages) results.push(await this.analyzeImageData(page, signal));
+    const reported = results.find((r) => r.isBlurry) ?? results[0];
+    return { ...reported, pages: results.map((r, index) => ({ ...r, page: index + 1 })) };
+  }
+
+  private async analyzeImageData(
+    imageData: ImageData,
+    signal?: AbortSignal,
+  ): Promise<BlurAnalysisResult> {
+    await abortCheckpoint(signal);
+    let mask: Uint8Array | undefined;
+    if (this.config.roi) {
+      const region = resolveRegion(this.config.roi, imageData.width, imageData.height);
+      this.log('Restricting analysis to region:', region);
+      imageData = cropImageData(imageData, region);
+      mask = region.mask;
+    }
 
     const result: BlurAnalysisResult = {
       isBlurry: false,
@@ -79,65 +249,121 @@ export class BlurDetector {
       method: this.config.method,
     };
 
+    const longSide = Math.max(imageData.width, imageData.height);
+    if (this.config.workingSize && longSide > this.config.workingSize) {
+      const scale = this.config.workingSize / longSide;
+      const workingWidth = Math.max(1, Math.round(imageData.width * scale));
+      const workingHeight = Math.max(1, Math.round(imageData.height * scale));
+      result.metrics.normalization = {
+        workingSize: this.config.workingSize,
+        scale,
+        originalWidth: imageData.width,
+        originalHeight: imageData.height,
+        workingWidth,
+        workingHeight,
+      };
+      this.log('Resampling to working size:', result.metrics.normalization);
+      if (mask)
+        mask = resampleMask(mask, imageData.width, imageData.height, workingWidth, workingHeight);
+      imageData = resampleImageData(imageData, workingWidth, workingHeight);
+    }
+    const area = mask ? mask.reduce((n, v) => n + v, 0) : imageData.width * imageData.height;
+
     try {
+      await abortCheckpoint(signal);
       if (this.config.method === 'edge' || this.config.method === 'both') {
-        const edge = this.detectBlur(this.reducedPixels(this.detectEdges(imageData)));
+        const edge = this.analyzeEdges(imageData, mask);
         result.metrics.edgeAnalysis = edge;
-        const edgeBlurry = edge.avgEdgeWidthPerc > this.config.edgeWidthThreshold;
-        const lowEdge =
-          edge.numEdges < (imageData.width * imageData.height) / LOW_EDGE_COUNT_DIVISOR;
-        const combined = edgeBlurry || lowEdge;
-        this.log('Edge result:', edge, 'blurry:', combined);
+        if (result.metrics.normalization)
+          result.metrics.normalization.estimatedRawAvgEdgeWidth =
+            edge.avgEdgeWidth / result.metrics.normalization.scale;
+        const edgeBlurry = this.isEdgeBlurry(edge, area);
+        this.log('Edge result:', edge, 'blurry:', edgeBlurry);
         if (this.config.method === 'edge') {
-          result.isBlurry = combined;
-          result.confidence = Math.min(edge.avgEdgeWidthPerc / this.config.edgeWidthThreshold, 1);
+          result.isBlurry = edgeBlurry;
+          result.confidence = Math.min(
+            edge.combined!.avgEdgeWidthPerc / this.config.edgeWidthThreshold,
+            1,
+          );
         }
       }
 
+      await abortCheckpoint(signal);
       if (this.config.method === 'laplacian' || this.config.method === 'both') {
-        try {
-          const lapVar = await this.detectBlurOpenCV(imageData);
-          result.metrics.laplacianVariance = lapVar;
-          const lapBlurry = lapVar < this.config.laplacianThreshold;
-          this.log('Laplacian:', lapVar, 'blurry:', lapBlurry);
-          if (this.config.method === 'laplacian') {
-            result.isBlurry = lapBlurry;
-            result.confidence = Math.min(this.config.laplacianThreshold / lapVar, 1);
-          }
-        } catch (e) {
-          this.log('OpenCV failed, fallback to edge:', e);
-          if (this.config.method === 'laplacian') {
-            const edge = this.detectBlur(this.reducedPixels(this.detectEdges(imageData)));
-            result.metrics.edgeAnalysis = edge;
-            result.isBlurry = edge.avgEdgeWidthPerc > this.config.edgeWidthThreshold;
-            result.confidence = Math.min(edge.avgEdgeWidthPerc / this.config.edgeWidthThreshold, 1);
-            result.method = 'edge (fallback)';
-          }
+        const lapVar = await this.detectLaplacianVariance(imageData, mask);
+        result.metrics.laplacianVariance = lapVar;
+        const lapBlurry = lapVar < this.config.laplacianThreshold;
+        this.log('Laplacian:', lapVar, 'blurry:', lapBlurry);
+        if (this.config.method === 'laplacian') {
+          result.isBlurry = lapBlurry;
+          result.confidence = Math.min(this.config.laplacianThreshold / lapVar, 1);
+        }
+      }
+
+      await abortCheckpoint(signal);
+      if (this.computes('tenengrad')) {
+        const tenengrad = SharpnessMetrics.tenengrad(imageData, mask);
+        result.metrics.tenengrad = tenengrad;
+        this.log('Tenengrad:', tenengrad);
+        if (this.config.method === 'tenengrad') {
+          result.isBlurry = tenengrad < this.config.tenengradThreshold;
+          result.confidence = Math.min(this.config.tenengradThreshold / tenengrad, 1);
+        }
+      }
+
+      if (this.computes('brenner')) {
+        const brenner = SharpnessMetrics.brenner(imageData, mask);
+        result.metrics.brenner = brenner;
+        this.log('Brenner:', brenner);
+        if (this.config.method === 'brenner') {
+          result.isBlurry = brenner < this.config.brennerThreshold;
+          result.confidence = Math.min(this.config.brennerThreshold / brenner, 1);
+        }
+      }
+
+      // FFT windows are square samples of the region's bounding box; the mask does not apply.
+      if (this.computes('fft')) {
+        const ratio = SharpnessMetrics.fftHighFrequencyRatio(imageData);
+        result.metrics.fftHighFrequencyRatio = ratio;
+        this.log('FFT high-frequency ratio:', ratio);
+        if (this.config.method === 'fft') {
+          result.isBlurry = ratio < this.config.fftThreshold;
+          result.confidence = Math.min(this.config.fftThreshold / ratio, 1);
         }
       }
 
       if (this.config.method === 'both') {
         const e = result.metrics.edgeAnalysis;
-        const edgeBlur = e
-          ? e.avgEdgeWidthPerc > this.config.edgeWidthThreshold ||
-            e.numEdges < (imageData.width * imageData.height) / LOW_EDGE_COUNT_DIVISOR
-          : false;
+        const edgeBlur = e ? this.isEdgeBlurry(e, area) : false;
         const hasLaplacian = typeof result.metrics.laplacianVariance === 'number';
         const lapBlur = hasLaplacian
           ? result.metrics.laplacianVariance! < this.config.laplacianThreshold
           : false;
         result.isBlurry = hasLaplacian ? lapBlur : edgeBlur;
         result.confidence = Math.max(
-          e ? Math.min(e.avgEdgeWidthPerc / this.config.edgeWidthThreshold, 1) : 0,
+          e ? Math.min((e.combined ?? e).avgEdgeWidthPerc / this.config.edgeWidthThreshold, 1) : 0,
           result.metrics.laplacianVariance
             ? Math.min(this.config.laplacianThreshold / result.metrics.laplacianVariance, 1)
             : 0,
         );
       }
 
+      await abortCheckpoint(signal);
+      if (result.isBlurry) {
+        result.metrics.blurClassification = this.classifyBlur(imageData, mask);
+        this.log('Blur classification:', result.metrics.blurClassification);
+      }
+
+      await abortCheckpoint(signal);
+      if (this.config.tileGrid) {
+        result.metrics.sharpnessMap = this.sharpnessMap(imageData, this.config.tileGrid, mask);
+        this.log('Sharpness map:', result.metrics.sharpnessMap);
+      }
+
       this.log('Final:', result);
       return result;
     } catch (error) {
+      if (error instanceof AnalysisAbortedError) throw error;
       this.log('Analysis failed:', error);
       throw new Error(
         `Blur analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -145,11 +371,62 @@ export class BlurDetector {
     }
   }
 
-  async isBlurry(input: ImageInput): Promise<boolean> {
-    return (await this.analyzeImage(input)).isBlurry;
+  async isBlurry(input: ImageInput, options: AbortOptions = {}): Promise<boolean> {
+    return (await this.analyzeImage(input, options)).isBlurry;
+  }
+
+  private classifyBlur(
+    imageData: ImageData,
+    mask?: Uint8Array,
+  ): NonNullable<BlurAnalysisResult['metrics']['blurClassification']> {
+    const { anisotropy, dominantAngle } = SharpnessMetrics.gradientOrientation(imageData, mask);
+    if (anisotropy < MOTION_BLUR_ANISOTROPY_MIN) return { type: 'defocus', anisotropy };
+    // Motion smears detail along its path, so surviving gradients run perpendicular to it.
+    return { type: 'motion', anisotropy, motionAngle: Math.round(dominantAngle + 90) % 180 };
+  }
+
+  private sharpnessMap(
+    imageData: ImageData,
+    grid: { rows: number; cols: number },
+    mask?: Uint8Array,
+  ): NonNullable<BlurAnalysisResult['metrics']['sharpnessMap']> {
+    const rows = Math.max(1, Math.floor(grid.rows));
+    const cols = Math.max(1, Math.floor(grid.cols));
+    const threshold = this.config.laplacianThreshold;
+    let contentTiles = 0,
+      blurryTiles = 0;
+    const tiles = SharpnessMetrics.laplacianTiles(imageData, rows, cols, mask).map((row) =>
+      row.map((tile) => {
+        if (tile.stdDev < TILE_CONTENT_MIN_STDDEV) return null;
+        contentTiles++;
+        if (tile.variance < threshold) blurryTiles++;
+        return score((tile.variance / (threshold * 2)) * 100);
+      }),
+    );
+    const blurryRatio = contentTiles > 0 ? blurryTiles / contentTiles : 0;
+    return {
+      rows,
+      cols,
+      tiles,
+      contentTiles,
+      blurryTiles,
+      blurryRatio,
+      isPartiallyBlurry: blurryTiles > 0 && blurryRatio >= this.config.partialBlurRatio,
+    };
+  }
+
+  private async detectLaplacianVariance(imageData: ImageData, mask?: Uint8Array): Promise<number> {
+    if (this.config.laplacianBackend === 'opencv') {
+      try {
+        return await this.detectBlurOpenCV(imageData, mask);
+      } catch (e) {
+        this.log('OpenCV failed, fallback to JS Laplacian:', e);
+      }
+    }
+    return Filters.laplacianVariance(imageData, mask);
   }
 
-  private async detectBlurOpenCV(imageData: ImageData): Promise<number> {
+  private async detectBlurOpenCV(imageData: ImageData, mask?: Uint8Array): Promise<number> {
     if (!this.openCvLoader.isLoaded()) await this.openCvLoader.loadOpenCV();
     const cv = this.openCvLoader.getCV();
     const mat = cv.matFromImageData(imageData);
@@ -159,9 +436,11 @@ export class BlurDetector {
     cv.Laplacian(gray, laplacian, cv.CV_64F);
     const mean = new cv.Mat(),
       stddev = new cv.Mat();
-    cv.meanStdDev(laplacian, mean, stddev);
+    const maskMat = mask && cv.matFromArray(imageData.height, imageData.width, cv.CV_8UC1, mask);
+    if (maskMat) cv.meanStdDev(laplacian, mean, stddev, maskMat);
+    else cv.meanStdDev(laplacian, mean, stddev);
     const variance = stddev.data64F[0] ** 2;
-    [mat, gray, laplacian, mean, stddev].forEach((m) => m.delete());
+    [mat, gray, laplacian, mean, stddev, maskMat].forEach((m) => m?.delete());
     return variance;
   }
 }
@@ -19,3 +19,24 @@ export const LOW_EDGE_COUNT_DIVISOR = 10000;
 export const BLANK_NON_WHITE_RATIO_MAX = 0.005;
 export const BLANK_CONTRAST_MAX = 2;
 export const BLANK_CONTENT_CONTRAST_MAX = 2;
+export const TENENGRAD_NOISE_FLOOR = 40;
+export const BRENNER_NOISE_FLOOR = 10;
+export const FFT_WINDOW_SIZE = 128;
+export const FFT_HIGH_FREQUENCY_CUTOFF = 0.25;
+export const FFT_MIN_WINDOW_VARIANCE = 25;
+export const TILE_CONTENT_MIN_STDDEV = 8;
+export const ORIENTATION_NOISE_FLOOR = 8;
+export const MOTION_BLUR_ANISOTROPY_MIN = 0.5;
+export const WORKER_READY_TIMEOUT_MS = 10000;
+export const WORKER_TASK_TIMEOUT_MS = 60000;
+export const PDF_POINTS_PER_INCH = 72;
+export const PDF_RENDER_SCALES = [1.0, 1.5, 2.0];
+export const PDF_TEXT_RENDER_SCALE = 3.0;
+export const SCAN_IMAGE_MIN_PAGE_COVERAGE = 0.5;
+export const DEFAULT_MAX_PIXELS = 100_000_000;
+export const DEFAULT_PDFJS_URL =
+  'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.min.js';
+export const DEFAULT_PDFJS_WORKER_URL =
+  'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js';
+export const DEFAULT_OPENCV_URL = 'https://docs.opencv.org/4.5.4/opencv.js';
+export const OPENCV_LOAD_TIMEOUT_MS = 10000;
@@ -0,0 +1,46 @@
+export class AnalysisAbortedError extends Error {
+  readonly reason: unknown;
+
+  constructor(reason?: unknown) {
+    super(reason instanceof Error ? reason.message : 'Analysis was aborted');
+    this.name = 'AbortError';
+    this.reason = reason;
+  }
+}
+
+export class PDFPasswordError extends Error {
+  readonly reason: 'password_required' | 'incorrect_password';
+
+  constructor(reason: PDFPasswordError['reason']) {
+    super(reason === 'incorrect_password' ? 'Incorrect PDF password' : 'PDF is password protected');
+    this.name = 'PDFPasswordError';
+    this.reason = reason;
+  }
+}
+
+// Thrown before decoding when a file's header declares more pixels than `maxPixels` allows.
+export class ImageTooLargeError extends Error {
+  readonly width: number;
+  readonly height: number;
+  readonly maxPixels: number;
+
+  constructor(width: number, height: number, maxPixels: number) {
+    super(`Image is ${width}x${height}, more than the ${maxPixels} pixels allowed`);
+    this.name = 'ImageTooLargeError';
+    this.width = width;
+    this.height = height;
+    this.maxPixels = maxPixels;
+  }
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw new AnalysisAbortedError(signal.reason);
+}
+
+// Yields to the event loop first so an abort() queued behind synchronous pixel work is seen.
+export async function abortCheckpoint(signal?: AbortSignal): Promise<void> {
+  if (!signal) return;
+  throwIfAborted(signal);
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  throwIfAborted(signal);
+}
@@ -1,5 +1,12 @@
 import { createCanvas } from './image-utils';
 
+// OpenCV's default BORDER_REFLECT_101: -1 maps to 1 and n maps to n - 2.
+function reflect101(i: number, n: number): number {
+  if (n === 1) return 0;
+  while (i < 0 || i >= n) i = i < 0 ? -i : 2 * n - 2 - i;
+  return i;
+}
+
 export const Filters = {
   getFloat32Array(len: number | number[]): Float32Array | number[] {
     if (Array.isArray(len)) return len.slice(0);
@@ -63,4 +70,59 @@ export const Filters = {
     }
     return output;
   },
+
+  grayscale(pixels: ImageData): Float32Array {
+    const d = pixels.data;
+    const out = new Float32Array(pixels.width * pixels.height);
+    for (let i = 0, j = 0; i < d.length; i += 4, j++)
+      out[j] = Math.round(0.299 * d[i] + 0.587 * d[i + 1] + 0.114 * d[i + 2]);
+    return out;
+  },
+
+  convolveGray(
+    gray: Float32Array,
+    width: number,
+    height: number,
+    weights: Float32Array | number[],
+  ): Float32Array {
+    const side = Math.round(Math.sqrt(weights.length));
+    const halfSide = Math.floor(side / 2);
+    const out = new Float32Array(width * height);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let sum = 0;
+        for (let cy = 0; cy < side; cy++) {
+          const scy = reflect101(y + cy - halfSide, height);
+          for (let cx = 0; cx < side; cx++) {
+            const scx = reflect101(x + cx - halfSide, width);
+            sum += gray[scy * width + scx] * weights[cy * side + cx];
+          }
+        }
+        out[y * width + x] = sum;
+      }
+    }
+    return out;
+  },
+
+  // A mask (one byte per value) limits the variance to the values it marks.
+  variance(values: Float32Array, mask?: Uint8Array): number {
+    let sum = 0,
+      sumSq = 0,
+      count = 0;
+    for (let i = 0; i < values.length; i++) {
+      if (mask && !mask[i]) continue;
+      sum += values[i];
+      sumSq += values[i] * values[i];
+      count++;
+    }
+    if (count === 0) return 0;
+    const mean = sum / count;
+    return Math.max(sumSq / count - mean * mean, 0);
+  },
+
+  laplacianVariance(pixels: ImageData, mask?: Uint8Array): number {
+    const gray = this.grayscale(pixels);
+    const lap = this.convolveGray(gray, pixels.width, pixels.height, [0, 1, 0, 1, -4, 1, 0, 1, 0]);
+    return this.variance(lap, mask);
+  },
 };
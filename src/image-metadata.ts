@@ -0,0 +1,315 @@
+import { detectSignature } from './validators/file-validator';
+import type { ImageMetadata } from './types';
+
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface JpegSegment extends ByteRange {
+  marker: number;
+  dataStart: number;
+}
+
+export interface ContainerChunk extends ByteRange {
+  type: string;
+  dataStart: number;
+  dataEnd: number;
+}
+
+export interface TiffEntry {
+  tag: number;
+  type: number;
+  count: number;
+  offset: number;
+  valueOffset: number;
+  size: number;
+}
+
+type ParsedMetadata = Omit<ImageMetadata, 'hasExif' | 'hasXmp'>;
+
+export const EXIF_HEADER = 'Exif\0\0';
+export const XMP_NAMESPACE = 'http://ns.adobe.com/xap/1.0/\0';
+export const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp';
+
+// Bytes per value for each TIFF field type, including the BigTIFF 64-bit ones (16-18).
+const TIFF_TYPE_SIZES: Record<number, number> = {
+  1: 1,
+  2: 1,
+  3: 2,
+  4: 4,
+  5: 8,
+  6: 1,
+  7: 1,
+  8: 2,
+  9: 4,
+  10: 8,
+  11: 4,
+  12: 8,
+  13: 4,
+  16: 8,
+  17: 8,
+  18: 8,
+};
+
+export const EXIF_TAGS = {
+  make: 0x010f,
+  model: 0x0110,
+  orientation: 0x0112,
+  exifIfd: 0x8769,
+  gpsIfd: 0x8825,
+  exposureTime: 0x829a,
+  iso: 0x8827,
+  dateTimeOriginal: 0x9003,
+  offsetTimeOriginal: 0x9011,
+  gpsLatitude: 0x0002,
+  gpsLongitude: 0x0004,
+  cameraOwnerName: 0xa430,
+  bodySerialNumber: 0xa431,
+  lensSerialNumber: 0xa435,
+  cameraSerialNumber: 0xc62f,
+};
+
+const SERIAL_NUMBER_TAGS = [
+  EXIF_TAGS.bodySerialNumber,
+  EXIF_TAGS.lensSerialNumber,
+  EXIF_TAGS.cameraSerialNumber,
+];
+
+// Read in chunks so large XMP packets stay under the engine's argument limit.
+export function ascii(bytes: Uint8Array, start = 0, end = bytes.length): string {
+  let text = '';
+  for (let i = start; i < end; i += 8192)
+    text += String.fromCharCode(...bytes.subarray(i, Math.min(end, i + 8192)));
+  return text;
+}
+
+// Segments up to and including SOS; the entropy-coded data after it holds no metadata.
+export function jpegSegments(bytes: Uint8Array): JpegSegment[] {
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0xd9 || (marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) break;
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    if (end > bytes.length) break;
+    segments.push({ marker, start: offset, end, dataStart: offset + 4 });
+    if (marker === 0xda) break;
+    offset = end;
+  }
+  return segments;
+}
+
+export function pngChunks(bytes: Uint8Array): ContainerChunk[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: ContainerChunk[] = [];
+  let offset = 8;
+  while (offset + 12 <= bytes.length) {
+    const dataEnd = offset + 8 + view.getUint32(offset);
+    if (dataEnd + 4 > bytes.length) break;
+    const type = ascii(bytes, offset + 4, offset + 8);
+    chunks.push({ type, start: offset, end: dataEnd + 4, dataStart: offset + 8, dataEnd });
+    if (type === 'IEND') break;
+    offset = dataEnd + 4;
+  }
+  return chunks;
+}
+
+export function riffChunks(bytes: Uint8Array): ContainerChunk[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: ContainerChunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const dataEnd = offset + 8 + view.getUint32(offset + 4, true);
+    if (dataEnd > bytes.length) break;
+    const type = ascii(bytes, offset, offset + 4);
+    // Chunks are padded to an even length.
+    const end = Math.min(bytes.length, dataEnd + (dataEnd % 2));
+    chunks.push({ type, start: offset, end, dataStart: offset + 8, dataEnd });
+    offset = end;
+  }
+  return chunks;
+}
+
+export function tiffReader(tiff: Uint8Array) {
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const little = ascii(tiff, 0, 2) === 'II';
+  return {
+    little,
+    view,
+    u16: (at: number) => view.getUint16(at, little),
+    u32: (at: number) => view.getUint32(at, little),
+  };
+}
+
+// Entries whose value lies outside the block are skipped rather than thrown on.
+export function ifdEntries(tiff: Uint8Array, offset: number): TiffEntry[] {
+  const { u16, u32 } = tiffReader(tiff);
+  const entries: TiffEntry[] = [];
+  if (offset + 2 > tiff.length) return entries;
+  const count = u16(offset);
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    if (entry + 12 > tiff.length) break;
+    const type = u16(entry + 2);
+    const n = u32(entry + 4);
+    const size = (TIFF_TYPE_SIZES[type] ?? 0) * n;
+    const valueOffset = size <= 4 ? entry + 8 : u32(entry + 8);
+    if (!size || valueOffset + size > tiff.length) continue;
+    entries.push({ tag: u16(entry), type, count: n, offset: entry, valueOffset, size });
+  }
+  return entries;
+}
+
+// Reads the TIFF structure inside an EXIF block.
+function parseExif(tiff: Uint8Array): ParsedMetadata {
+  const { u16, u32 } = tiffReader(tiff);
+  const readIfd = (offset: number) => {
+    const entries = new Map<number, unknown>();
+    for (const { tag, type, count, valueOffset: at } of ifdEntries(tiff, offset)) {
+      if (type === 2)
+        entries.set(
+          tag,
+          ascii(tiff, at, at + count)
+            .replace(/\0.*$/, '')
+            .trim(),
+        );
+      else if (type === 3) entries.set(tag, u16(at));
+      else if (type === 4) entries.set(tag, u32(at));
+      else if (type === 5) entries.set(tag, u32(at + 4) ? u32(at) / u32(at + 4) : undefined);
+      else entries.set(tag, true);
+    }
+    return entries;
+  };
+
+  const ifd0 = readIfd(u32(4));
+  const exifOffset = ifd0.get(EXIF_TAGS.exifIfd);
+  const gpsOffset = ifd0.get(EXIF_TAGS.gpsIfd);
+  const exif = typeof exifOffset === 'number' ? readIfd(exifOffset) : new Map<number, unknown>();
+  const gps = typeof gpsOffset === 'number' ? readIfd(gpsOffset) : new Map<number, unknown>();
+  const text = (value: unknown) => (typeof value === 'string' && value ? value : undefined);
+  const number = (value: unknown) => (typeof value === 'number' ? value : undefined);
+  // EXIF times are "YYYY:MM:DD HH:MM:SS" in local time, with an optional separate UTC offset.
+  const dateTime = text(exif.get(EXIF_TAGS.dateTimeOriginal))?.match(
+    /^(\d{4}):(\d{2}):(\d{2}) (\d{2}:\d{2}:\d{2})$/,
+  );
+
+  return {
+    orientation: number(ifd0.get(EXIF_TAGS.orientation)),
+    make: text(ifd0.get(EXIF_TAGS.make)),
+    model: text(ifd0.get(EXIF_TAGS.model)),
+    captureTime: dateTime
+      ? `${dateTime[1]}-${dateTime[2]}-${dateTime[3]}T${dateTime[4]}${text(exif.get(EXIF_TAGS.offsetTimeOriginal)) ?? ''}`
+      : undefined,
+    exposureTime: number(exif.get(EXIF_TAGS.exposureTime)),
+    iso: number(exif.get(EXIF_TAGS.iso)),
+    hasGps: gps.has(EXIF_TAGS.gpsLatitude) || gps.has(EXIF_TAGS.gpsLongitude),
+    hasSerialNumber: SERIAL_NUMBER_TAGS.some((tag) => ifd0.has(tag) || exif.has(tag)),
+  };
+}
+
+const XMP_SERIAL_NUMBER_NAMES = [
+  'aux:SerialNumber',
+  'aux:LensSerialNumber',
+  'exifEX:BodySerialNumber',
+  'exifEX:LensSerialNumber',
+];
+
+function xmpValue(xmp: string, name: string): string | undefined {
+  const match =
+    new RegExp(`${name}="([^"]*)"`).exec(xmp) ??
+    new RegExp(`<${name}>\\s*(?:<rdf:(?:Seq|Bag|Alt)>\\s*<rdf:li[^>]*>)?([^<]+)<`).exec(xmp);
+  return match?.[1].trim() || undefined;
+}
+
+function parseXmp(xmp: string): ParsedMetadata {
+  const rational = (value?: string) => {
+    if (!value) return undefined;
+    const [num, den = '1'] = value.split('/');
+    const result = Number(num) / Number(den);
+    return Number.isFinite(result) ? result : undefined;
+  };
+  const integer = (value?: string) => (value && /^\d+$/.test(value) ? Number(value) : undefined);
+  return {
+    orientation: integer(xmpValue(xmp, 'tiff:Orientation')),
+    make: xmpValue(xmp, 'tiff:Make'),
+    model: xmpValue(xmp, 'tiff:Model'),
+    captureTime: xmpValue(xmp, 'exif:DateTimeOriginal') ?? xmpValue(xmp, 'xmp:CreateDate'),
+    exposureTime: rational(xmpValue(xmp, 'exif:ExposureTime')),
+    iso:
+      integer(xmpValue(xmp, 'exif:ISOSpeedRatings')) ??
+      integer(xmpValue(xmp, 'exifEX:PhotographicSensitivity')),
+    hasGps: !!(xmpValue(xmp, 'exif:GPSLatitude') || xmpValue(xmp, 'exif:GPSLongitude')),
+    hasSerialNumber: XMP_SERIAL_NUMBER_NAMES.some((name) => !!xmpValue(xmp, name)),
+  };
+}
+
+function findMetadataBlocks(
+  bytes: Uint8Array,
+  type: string,
+): { exif?: Uint8Array; xmp?: string } | null {
+  const blocks: { exif?: Uint8Array; xmp?: string } = {};
+  if (type === 'image/jpeg') {
+    for (const s of jpegSegments(bytes)) {
+      if (s.marker !== 0xe1) continue;
+      if (ascii(bytes, s.dataStart, s.dataStart + EXIF_HEADER.length) === EXIF_HEADER)
+        blocks.exif ??= bytes.subarray(s.dataStart + EXIF_HEADER.length, s.end);
+      else if (ascii(bytes, s.dataStart, s.dataStart + XMP_NAMESPACE.length) === XMP_NAMESPACE)
+        blocks.xmp ??= ascii(bytes, s.dataStart + XMP_NAMESPACE.length, s.end);
+    }
+  } else if (type === 'image/png') {
+    for (const c of pngChunks(bytes)) {
+      if (c.type === 'eXIf') blocks.exif ??= bytes.subarray(c.dataStart, c.dataEnd);
+      // iTXt: keyword, NUL, compression flag and method, language tag, NUL, translated keyword,
+      // NUL, then the text. Compressed XMP is skipped.
+      else if (
+        c.type === 'iTXt' &&
+        ascii(bytes, c.dataStart, c.dataStart + 18) === `${PNG_XMP_KEYWORD}\0` &&
+        bytes[c.dataStart + 18] === 0
+      )
+        blocks.xmp ??= ascii(bytes, c.dataStart, c.dataEnd).replace(/^[^<]*/, '');
+    }
+  } else if (type === 'image/webp') {
+    for (const c of riffChunks(bytes)) {
+      const data = bytes.subarray(c.dataStart, c.dataEnd);
+      if (c.type === 'EXIF')
+        blocks.exif ??= ascii(data, 0, 6) === EXIF_HEADER ? data.subarray(6) : data;
+      else if (c.type === 'XMP ') blocks.xmp ??= ascii(data);
+    }
+  } else return null;
+  return blocks;
+}
+
+// Null for formats whose metadata containers are not parsed (HEIC, AVIF, TIFF, GIF, BMP).
+export async function readImageMetadata(blob: Blob): Promise<ImageMetadata | null> {
+  const signature = await detectSignature(blob);
+  if (!signature) return null;
+  const bytes = new Uint8Array(await blob.slice(0, blob.size).arrayBuffer());
+  const blocks = findMetadataBlocks(bytes, signature.type);
+  if (!blocks) return null;
+
+  let exif: ParsedMetadata | undefined, xmp: ParsedMetadata | undefined;
+  try {
+    if (blocks.exif && blocks.exif.length >= 8) exif = parseExif(blocks.exif);
+  } catch {
+    exif = undefined;
+  }
+  if (blocks.xmp) xmp = parseXmp(blocks.xmp);
+
+  return {
+    orientation: exif?.orientation ?? xmp?.orientation,
+    make: exif?.make ?? xmp?.make,
+    model: exif?.model ?? xmp?.model,
+    captureTime: exif?.captureTime ?? xmp?.captureTime,
+    exposureTime: exif?.exposureTime ?? xmp?.exposureTime,
+    iso: exif?.iso ?? xmp?.iso,
+    hasGps: !!(exif?.hasGps || xmp?.hasGps),
+    hasSerialNumber: !!(exif?.hasSerialNumber || xmp?.hasSerialNumber),
+    hasExif: !!blocks.exif,
+    hasXmp: !!blocks.xmp,
+  };
+}
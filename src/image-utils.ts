@@ -1,45 +1,153 @@
-export function createCanvas(): HTMLCanvasElement {
+import { runtimeAdapters } from './runtime';
+import { DEFAULT_MAX_PIXELS } from './constants';
+import { ImageTooLargeError } from './errors';
+import { detectSignature, readImageDimensions } from './validators/file-validator';
+import { readImageMetadata } from './image-metadata';
+import type { CanvasLike, RegionOfInterest } from './types';
+
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export function createCanvas(width = 1, height = 1): CanvasLike {
+  const { createCanvas: factory } = runtimeAdapters();
+  if (factory) return factory(width, height);
   if (typeof document !== 'undefined') return document.createElement('canvas');
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
   throw new Error('Canvas not available in this environment');
 }
 
+// ImageBitmap, VideoFrame, etc. are missing in some runtimes, so never reference them directly.
+function isInstance(input: unknown, name: string): boolean {
+  const ctor = (globalThis as Record<string, any>)[name];
+  return typeof ctor === 'function' && input instanceof ctor;
+}
+
+function drawToImageData(
+  canvas: CanvasLike,
+  ctx: Context2D,
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+): ImageData {
+  canvas.width = width;
+  canvas.height = height;
+  ctx.drawImage(source, 0, 0);
+  return ctx.getImageData(0, 0, width, height);
+}
+
+function decodeWithImageElement(
+  input: Blob,
+  canvas: CanvasLike,
+  ctx: Context2D,
+): Promise<ImageData> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const img = new Image();
+      img.onload = () => resolve(drawToImageData(canvas, ctx, img, img.width, img.height));
+      img.onerror = reject;
+      img.src = e.target?.result as string;
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(input);
+  });
+}
+
+// Maps EXIF orientations 2-8 onto upright pixels; 5-8 swap width and height.
+export function orientImageData(imageData: ImageData, orientation = 1): ImageData {
+  if (orientation < 2 || orientation > 8) return imageData;
+  const { width: w, height: h, data } = imageData;
+  const transposed = orientation >= 5;
+  const out = new ImageData(transposed ? h : w, transposed ? w : h);
+  const sourceFor: Record<number, (x: number, y: number) => number> = {
+    2: (x, y) => y * w + (w - 1 - x),
+    3: (x, y) => (h - 1 - y) * w + (w - 1 - x),
+    4: (x, y) => (h - 1 - y) * w + x,
+    5: (x, y) => x * w + y,
+    6: (x, y) => (h - 1 - x) * w + y,
+    7: (x, y) => (h - 1 - x) * w + (w - 1 - y),
+    8: (x, y) => x * w + (w - 1 - y),
+  };
+  const source = sourceFor[orientation];
+  const src = new Uint32Array(data.buffer, data.byteOffset, w * h);
+  const dst = new Uint32Array(out.data.buffer);
+  for (let y = 0; y < out.height; y++)
+    for (let x = 0; x < out.width; x++) dst[y * out.width + x] = src[source(x, y)];
+  return out;
+}
+
+// Every decode path starts here, so a decompression bomb is refused from its header before any
+// decoder allocates pixels for it.
+export async function assertPixelLimit(blob: Blob, maxPixels = DEFAULT_MAX_PIXELS): Promise<void> {
+  const header = await readImageDimensions(blob);
+  if (header && header.width * header.height > maxPixels)
+    throw new ImageTooLargeError(header.width, header.height, maxPixels);
+}
+
+// Runs the decoder registered for the blob's format, or returns null when there is none.
+export async function decodeImagePages(
+  blob: Blob,
+  maxPixels?: number,
+): Promise<ImageData[] | null> {
+  await assertPixelLimit(blob, maxPixels);
+  const { imageDecoders } = runtimeAdapters();
+  if (!imageDecoders) return null;
+  const type = (await detectSignature(blob))?.type ?? blob.type;
+  const decoder = imageDecoders[type];
+  if (!decoder) return null;
+  const decoded = await decoder(blob);
+  const orientation = (await readImageMetadata(blob))?.orientation;
+  return [decoded].flat().map((page) => orientImageData(page, orientation));
+}
+
 export async function getImageDataFromInput(
   input: any,
-  canvas?: HTMLCanvasElement,
+  canvas?: CanvasLike,
+  maxPixels?: number,
 ): Promise<ImageData> {
-  const c = canvas ?? createCanvas();
   if (input instanceof ImageData) return input;
-
-  const ctx = c.getContext('2d');
+  // Runtime decoders return pixels as stored, so EXIF orientation is applied here; the browser
+  // paths below ask the browser to apply it, so every path yields the same upright pixels.
+  if (input instanceof Blob) {
+    const pages = await decodeImagePages(input, maxPixels);
+    if (pages?.length) return pages[0];
+    const { decodeImage } = runtimeAdapters();
+    if (decodeImage)
+      return orientImageData(
+        await decodeImage(input),
+        (await readImageMetadata(input))?.orientation,
+      );
+  }
+  const c = canvas ?? createCanvas();
+  const ctx = c.getContext('2d') as Context2D | null;
   if (!ctx) throw new Error('Could not get 2D context from canvas');
 
-  if (input instanceof File) {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const img = new Image();
-        img.onload = () => {
-          c.width = img.width;
-          c.height = img.height;
-          ctx.drawImage(img, 0, 0);
-          resolve(ctx.getImageData(0, 0, c.width, c.height));
-        };
-        img.onerror = reject;
-        img.src = e.target?.result as string;
-      };
-      reader.onerror = reject;
-      reader.readAsDataURL(input);
-    });
+  if (input instanceof Blob) {
+    // An <img> is drawn with the CSS default `image-orientation: from-image`.
+    if (typeof createImageBitmap !== 'function') return decodeWithImageElement(input, c, ctx);
+    const bitmap = await createImageBitmap(input, { imageOrientation: 'from-image' });
+    try {
+      return drawToImageData(c, ctx, bitmap, bitmap.width, bitmap.height);
+    } finally {
+      bitmap.close();
+    }
   }
 
-  if (input instanceof HTMLImageElement) {
-    c.width = input.naturalWidth || input.width;
-    c.height = input.naturalHeight || input.height;
-    ctx.drawImage(input, 0, 0);
-    return ctx.getImageData(0, 0, c.width, c.height);
-  }
+  if (isInstance(input, 'ImageBitmap'))
+    return drawToImageData(c, ctx, input, input.width, input.height);
+
+  if (isInstance(input, 'VideoFrame'))
+    return drawToImageData(c, ctx, input, input.displayWidth, input.displayHeight);
+
+  if (isInstance(input, 'HTMLImageElement'))
+    return drawToImageData(
+      c,
+      ctx,
+      input,
+      input.naturalWidth || input.width,
+      input.naturalHeight || input.height,
+    );
 
-  if (input instanceof HTMLCanvasElement) {
+  if (isInstance(input, 'HTMLCanvasElement') || isInstance(input, 'OffscreenCanvas')) {
     const srcCtx = input.getContext('2d');
     if (!srcCtx) throw new Error('Could not get 2D context from source canvas');
     return srcCtx.getImageData(0, 0, input.width, input.height);
@@ -47,3 +155,128 @@ export async function getImageDataFromInput(
 
   throw new Error('Unsupported input type');
 }
+
+export interface ResolvedRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  mask?: Uint8Array;
+}
+
+export function resolveRegion(
+  roi: RegionOfInterest,
+  width: number,
+  height: number,
+): ResolvedRegion {
+  if ('data' in roi) {
+    const sampleX = (x: number) => Math.floor((x * roi.width) / width);
+    const sampleY = (y: number) => Math.floor((y * roi.height) / height);
+    const inside = (x: number, y: number) =>
+      roi.data[(sampleY(y) * roi.width + sampleX(x)) * 4 + 3] > 0;
+    let minX = width,
+      minY = height,
+      maxX = -1,
+      maxY = -1;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (!inside(x, y)) continue;
+        minX = Math.min(minX, x);
+        minY = Math.min(minY, y);
+        maxX = Math.max(maxX, x);
+        maxY = Math.max(maxY, y);
+      }
+    }
+    if (maxX < minX) throw new Error('Region of interest mask is empty');
+    const w = maxX - minX + 1;
+    const h = maxY - minY + 1;
+    const mask = new Uint8Array(w * h);
+    for (let y = 0; y < h; y++)
+      for (let x = 0; x < w; x++) mask[y * w + x] = inside(minX + x, minY + y) ? 1 : 0;
+    return { x: minX, y: minY, width: w, height: h, mask };
+  }
+
+  const scaleX = roi.normalized ? width : 1;
+  const scaleY = roi.normalized ? height : 1;
+  const x0 = Math.max(0, Math.round(roi.x * scaleX));
+  const y0 = Math.max(0, Math.round(roi.y * scaleY));
+  const x1 = Math.min(width, Math.round((roi.x + roi.width) * scaleX));
+  const y1 = Math.min(height, Math.round((roi.y + roi.height) * scaleY));
+  if (x1 <= x0 || y1 <= y0) throw new Error('Region of interest is outside the image');
+  return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+}
+
+export function cropImageData(imageData: ImageData, region: ResolvedRegion): ImageData {
+  if (
+    region.x === 0 &&
+    region.y === 0 &&
+    region.width === imageData.width &&
+    region.height === imageData.height
+  )
+    return imageData;
+  const out = new Uint8ClampedArray(region.width * region.height * 4);
+  for (let y = 0; y < region.height; y++) {
+    const start = ((region.y + y) * imageData.width + region.x) * 4;
+    out.set(imageData.data.subarray(start, start + region.width * 4), y * region.width * 4);
+  }
+  return new ImageData(out, region.width, region.height);
+}
+
+export function resampleImageData(imageData: ImageData, width: number, height: number): ImageData {
+  const { data: src, width: sw, height: sh } = imageData;
+  const out = new Uint8ClampedArray(width * height * 4);
+  const sx = sw / width;
+  const sy = sh / height;
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor(y * sy);
+    const y1 = Math.max(y0 + 1, Math.min(sh, Math.floor((y + 1) * sy)));
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor(x * sx);
+      const x1 = Math.max(x0 + 1, Math.min(sw, Math.floor((x + 1) * sx)));
+      let r = 0,
+        g = 0,
+        b = 0,
+        a = 0;
+      for (let yy = y0; yy < y1; yy++) {
+        for (let xx = x0; xx < x1; xx++) {
+          const i = (yy * sw + xx) * 4;
+          r += src[i];
+          g += src[i + 1];
+          b += src[i + 2];
+          a += src[i + 3];
+        }
+      }
+      const n = (y1 - y0) * (x1 - x0);
+      const o = (y * width + x) * 4;
+      out[o] = r / n;
+      out[o + 1] = g / n;
+      out[o + 2] = b / n;
+      out[o + 3] = a / n;
+    }
+  }
+  return new ImageData(out, width, height);
+}
+
+// Samples a region mask onto the same boxes as resampleImageData; a box counts if any of it is set.
+export function resampleMask(
+  mask: Uint8Array,
+  sw: number,
+  sh: number,
+  width: number,
+  height: number,
+): Uint8Array {
+  const out = new Uint8Array(width * height);
+  const sx = sw / width;
+  const sy = sh / height;
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor(y * sy);
+    const y1 = Math.max(y0 + 1, Math.min(sh, Math.floor((y + 1) * sy)));
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor(x * sx);
+      const x1 = Math.max(x0 + 1, Math.min(sw, Math.floor((x + 1) * sx)));
+      for (let yy = y0; yy < y1 && !out[y * width + x]; yy++)
+        for (let xx = x0; xx < x1; xx++) if (mask[yy * sw + xx]) out[y * width + x] = 1;
+    }
+  }
+  return out;
+}
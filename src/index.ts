@@ -4,9 +4,26 @@
 export { BlurDetector } from './blur-detector';
 export { PDFAnalyzer } from './pdf-analyzer';
 export { OpenCVLoader } from './opencv-loader';
+export type { OpenCVLoaderOptions } from './opencv-loader';
 export { Filters } from './filters';
-export { ISSUE_CATALOG, recommendationsFor, summaryFor } from './issue-catalog';
-export type { IssueCode, IssueDefinition, IssueSeverity } from './issue-catalog';
+export { SharpnessMetrics } from './sharpness-metrics';
+export { WorkerClient, createWorkerClient } from './worker-client';
+export { AnalysisAbortedError, ImageTooLargeError, PDFPasswordError } from './errors';
+export { configureRuntime } from './runtime';
+export { sanitizeFile } from './metadata-sanitizer';
+export type { RuntimeAdapters } from './runtime';
+export {
+  ISSUE_CATALOG,
+  BLUR_TYPE_RECOMMENDATIONS,
+  recommendationsFor,
+  summaryFor,
+} from './issue-catalog';
+export type {
+  IssueCode,
+  IssueDefinition,
+  IssueSeverity,
+  RecommendationContext,
+} from './issue-catalog';
 export { MODE_CONFIG, resolveMode, presetToMode } from './mode-config';
 export type { ValidationMode, StrictnessLevel } from './mode-config';
 export * from './types';
@@ -14,9 +31,14 @@ export * from './types';
 import { BlurDetector } from './blur-detector';
 import { PDFAnalyzer } from './pdf-analyzer';
 import { validateImageQuality } from './validators/image-quality-validator';
-import { validatePDFQuality } from './validators/pdf-quality-validator';
+import {
+  validatePDFQuality,
+  validatePDFPages as streamPDFPages,
+} from './validators/pdf-quality-validator';
 import { extensionFor } from './validators/file-validator';
+import { WorkerClient, resolveWorkerClient } from './worker-client';
 import type {
+  AbortOptions,
   BlurDetectionConfig,
   FileAnalysisOptions,
   ImageInput,
@@ -24,10 +46,25 @@ import type {
   PDFPerformanceOptions,
 } from './types';
 
+const IMAGE_EXTENSIONS = [
+  'png',
+  'jpg',
+  'jpeg',
+  'gif',
+  'bmp',
+  'webp',
+  'heic',
+  'heif',
+  'avif',
+  'tif',
+  'tiff',
+];
+
 export class BlurryCheck {
   private blurDetector: BlurDetector;
   private pdfAnalyzer: PDFAnalyzer;
   private config: BlurDetectionConfig;
+  private workerClient: WorkerClient | null;
 
   constructor(config: BlurDetectionConfig = {}) {
     this.config = {
@@ -37,18 +74,24 @@ export class BlurryCheck {
       debug: false,
       ...config,
     };
+    this.workerClient = resolveWorkerClient(this.config.worker);
     this.blurDetector = new BlurDetector(this.config);
-    this.pdfAnalyzer = new PDFAnalyzer(this.config);
+    this.pdfAnalyzer = new PDFAnalyzer(this.withWorker(this.config));
+  }
+
+  private withWorker<T extends BlurDetectionConfig>(config: T): T {
+    return { ...config, worker: this.workerClient ?? undefined };
   }
 
-  async isImageBlurry(input: ImageInput) {
-    return this.blurDetector.isBlurry(input);
+  async isImageBlurry(input: ImageInput, options: AbortOptions = {}) {
+    return (await this.analyzeImage(input, options)).isBlurry;
   }
-  async analyzeImage(input: ImageInput) {
-    return this.blurDetector.analyzeImage(input);
+  async analyzeImage(input: ImageInput, options: AbortOptions = {}) {
+    if (this.workerClient) return this.workerClient.analyzeImage(input, this.config, options);
+    return this.blurDetector.analyzeImage(input, options);
   }
-  async isPDFGoodQuality(file: File) {
-    return this.pdfAnalyzer.isGoodQuality(file);
+  async isPDFGoodQuality(file: File, perfOptions?: PDFPerformanceOptions) {
+    return this.pdfAnalyzer.isGoodQuality(file, perfOptions);
   }
   async analyzePDF(file: File, perfOptions?: PDFPerformanceOptions) {
     return this.pdfAnalyzer.analyzePDF(file, perfOptions);
@@ -56,24 +99,33 @@ export class BlurryCheck {
 
   async analyzeFile(file: File, options: FileAnalysisOptions = {}) {
     const ext = extensionFor(file);
-    const mergedConfig = { ...this.config, ...options };
-    if (ext === 'pdf') return new PDFAnalyzer(mergedConfig).analyzePDF(file);
-    if (['png', 'jpg', 'jpeg', 'gif', 'bmp', 'webp'].includes(ext))
-      return new BlurDetector(mergedConfig).analyzeImage(file);
+    const { signal, ...analysisOptions } = options;
+    const mergedConfig = this.withWorker({ ...this.config, ...analysisOptions });
+    if (ext === 'pdf') return new PDFAnalyzer(mergedConfig).analyzePDF(file, { signal });
+    if (IMAGE_EXTENSIONS.includes(ext))
+      return this.workerClient
+        ? this.workerClient.analyzeImage(file, mergedConfig, { signal })
+        : new BlurDetector(mergedConfig).analyzeImage(file, { signal });
     throw new Error(`Unsupported file type: ${ext}`);
   }
 
   async validateImage(input: ImageInput, options: UploadValidationOptions = {}) {
-    return validateImageQuality(input, { ...this.config, ...options });
+    const merged = { ...this.config, ...options };
+    if (this.workerClient) return this.workerClient.validateImage(input, merged);
+    return validateImageQuality(input, merged);
   }
 
   async validateUpload(file: File, options: UploadValidationOptions = {}) {
     const ext = extensionFor(file);
     if (file.type === 'application/pdf' || ext === 'pdf')
-      return validatePDFQuality(file, { ...options }, this.config);
+      return validatePDFQuality(file, this.withWorker(options), this.withWorker(this.config));
     return this.validateImage(file, options);
   }
 
+  validatePDFPages(file: File, options: UploadValidationOptions = {}) {
+    return streamPDFPages(file, this.withWorker(options), this.withWorker(this.config));
+  }
+
   async isFileGoodQuality(file: File, options: FileAnalysisOptions = {}) {
     const result = await this.analyzeFile(file, options);
     return 'isQualityGood' in result ? result.isQualityGood : !result.isBlurry;
@@ -81,8 +133,9 @@ export class BlurryCheck {
 
   updateConfig(newConfig: Partial<BlurDetectionConfig>) {
     this.config = { ...this.config, ...newConfig };
+    this.workerClient = resolveWorkerClient(this.config.worker);
     this.blurDetector = new BlurDetector(this.config);
-    this.pdfAnalyzer = new PDFAnalyzer(this.config);
+    this.pdfAnalyzer = new PDFAnalyzer(this.withWorker(this.config));
   }
 
   getConfig(): BlurDetectionConfig {
@@ -90,11 +143,11 @@ export class BlurryCheck {
   }
 }
 
-export async function isImageBlurry(input: ImageInput, config?: BlurDetectionConfig) {
-  return new BlurryCheck(config).isImageBlurry(input);
+export async function isImageBlurry(input: ImageInput, config?: FileAnalysisOptions) {
+  return new BlurryCheck(config).isImageBlurry(input, { signal: config?.signal });
 }
-export async function isPDFGoodQuality(file: File, config?: BlurDetectionConfig) {
-  return new BlurryCheck(config).isPDFGoodQuality(file);
+export async function isPDFGoodQuality(file: File, config?: FileAnalysisOptions) {
+  return new BlurryCheck(config).isPDFGoodQuality(file, { signal: config?.signal });
 }
 export async function analyzeFile(file: File, options?: FileAnalysisOptions) {
   return new BlurryCheck(options).analyzeFile(file, options);
@@ -105,5 +158,8 @@ export async function validateImage(input: ImageInput, options?: UploadValidatio
 export async function validateUpload(file: File, options?: UploadValidationOptions) {
   return new BlurryCheck(options).validateUpload(file, options);
 }
+export function validatePDFPages(file: File, options?: UploadValidationOptions) {
+  return new BlurryCheck(options).validatePDFPages(file, options);
+}
 
 export default BlurryCheck;
@@ -1,22 +1,33 @@
 export type IssueCode =
   | 'blurry'
+  | 'partial_blur'
   | 'too_dark'
   | 'too_bright'
   | 'glare'
   | 'low_contrast'
   | 'low_resolution'
+  | 'too_many_pixels'
+  | 'too_large_dimensions'
+  | 'low_scan_dpi'
   | 'too_large'
   | 'invalid_file'
+  | 'truncated_file'
   | 'unsupported_format'
+  | 'undecodable_format'
+  | 'invalid_roi'
   | 'rotated'
   | 'cropped'
   | 'perspective_distortion'
   | 'low_text_density'
   | 'corrupted_pdf'
+  | 'password_protected_pdf'
+  | 'pdf_active_content'
+  | 'pdf_attachments'
   | 'corrupted_page'
   | 'scanned_pdf'
   | 'analysis_error'
   | 'cover_page'
+  | 'metadata_privacy'
   | 'blank_image';
 
 export type IssueSeverity = 'error' | 'warning';
@@ -35,6 +46,12 @@ export const ISSUE_CATALOG: Record<IssueCode, IssueDefinition> = {
     message: 'Image appears blurry.',
     recommendation: 'Hold the camera steady and retake the image.',
   },
+  partial_blur: {
+    code: 'partial_blur',
+    severity: 'error',
+    message: 'Part of the image appears blurry.',
+    recommendation: 'Refocus on the blurry area of the document and retake the image.',
+  },
   too_dark: {
     code: 'too_dark',
     severity: 'error',
@@ -66,6 +83,24 @@ export const ISSUE_CATALOG: Record<IssueCode, IssueDefinition> = {
     message: 'Image resolution is too low.',
     recommendation: 'Upload a higher resolution image.',
   },
+  too_many_pixels: {
+    code: 'too_many_pixels',
+    severity: 'error',
+    message: 'Image has too many pixels to process safely.',
+    recommendation: 'Resize the image to a smaller resolution and upload again.',
+  },
+  too_large_dimensions: {
+    code: 'too_large_dimensions',
+    severity: 'error',
+    message: 'Image dimensions are larger than allowed.',
+    recommendation: 'Resize the image to the allowed width and height and upload again.',
+  },
+  low_scan_dpi: {
+    code: 'low_scan_dpi',
+    severity: 'error',
+    message: 'Scanned page resolution is too low.',
+    recommendation: 'Rescan the document at a higher resolution (300 DPI recommended).',
+  },
   too_large: {
     code: 'too_large',
     severity: 'error',
@@ -78,12 +113,31 @@ export const ISSUE_CATALOG: Record<IssueCode, IssueDefinition> = {
     message: 'File format is not supported or the file is corrupt.',
     recommendation: 'Choose a valid image or PDF file.',
   },
+  truncated_file: {
+    code: 'truncated_file',
+    severity: 'error',
+    message: 'File is incomplete or was cut off.',
+    recommendation:
+      'The upload may have been interrupted. Save or download the file again and retry.',
+  },
   unsupported_format: {
     code: 'unsupported_format',
     severity: 'error',
     message: 'File type is not allowed.',
     recommendation: 'Upload a supported format (JPG, PNG, WebP, or PDF).',
   },
+  undecodable_format: {
+    code: 'undecodable_format',
+    severity: 'error',
+    message: 'This file type is accepted, but this browser or device cannot open it.',
+    recommendation: 'Convert the image to JPG or PNG, or upload it from another browser.',
+  },
+  invalid_roi: {
+    code: 'invalid_roi',
+    severity: 'error',
+    message: 'Region of interest does not cover any part of the image.',
+    recommendation: 'Select an area inside the image and try again.',
+  },
   rotated: {
     code: 'rotated',
     severity: 'warning',
@@ -114,6 +168,24 @@ export const ISSUE_CATALOG: Record<IssueCode, IssueDefinition> = {
     message: 'PDF could not be read.',
     recommendation: 'Re-export or rescan the PDF before uploading.',
   },
+  password_protected_pdf: {
+    code: 'password_protected_pdf',
+    severity: 'error',
+    message: 'PDF is password protected.',
+    recommendation: 'Remove the password from the PDF, or enter it, and upload again.',
+  },
+  pdf_active_content: {
+    code: 'pdf_active_content',
+    severity: 'error',
+    message: 'PDF contains scripts, launch actions or XFA forms.',
+    recommendation: 'Print or export the document to a plain PDF and upload again.',
+  },
+  pdf_attachments: {
+    code: 'pdf_attachments',
+    severity: 'error',
+    message: 'PDF contains embedded files.',
+    recommendation: 'Remove the attached files from the PDF before uploading.',
+  },
   corrupted_page: {
     code: 'corrupted_page',
     severity: 'error',
@@ -138,6 +210,12 @@ export const ISSUE_CATALOG: Record<IssueCode, IssueDefinition> = {
     message: 'Page may be a cover or header page with low text content.',
     recommendation: 'Verify that the cover page content is intentional.',
   },
+  metadata_privacy: {
+    code: 'metadata_privacy',
+    severity: 'warning',
+    message: 'Image contains GPS location or device serial numbers.',
+    recommendation: 'Remove location and camera details from the photo before sharing it.',
+  },
   blank_image: {
     code: 'blank_image',
     severity: 'error',
@@ -148,35 +226,62 @@ export const ISSUE_CATALOG: Record<IssueCode, IssueDefinition> = {
 
 const RECOMMENDATION_ORDER: IssueCode[] = [
   'blurry',
+  'partial_blur',
   'too_dark',
   'glare',
   'too_bright',
   'low_contrast',
   'low_resolution',
+  'too_many_pixels',
+  'too_large_dimensions',
+  'low_scan_dpi',
   'rotated',
   'cropped',
   'perspective_distortion',
   'too_large',
   'unsupported_format',
+  'undecodable_format',
   'invalid_file',
+  'truncated_file',
+  'invalid_roi',
   'corrupted_page',
   'corrupted_pdf',
+  'password_protected_pdf',
+  'pdf_active_content',
+  'pdf_attachments',
   'scanned_pdf',
   'low_text_density',
   'cover_page',
+  'metadata_privacy',
   'blank_image',
   'analysis_error',
 ];
 
-export function recommendationsFor(issues: IssueCode[]): string[] {
+export const BLUR_TYPE_RECOMMENDATIONS: Record<'motion' | 'defocus', string> = {
+  motion: 'Hold the camera steady and retake the image.',
+  defocus: 'Tap the screen to focus on the document, or move the camera further away, and retake.',
+};
+
+export interface RecommendationContext {
+  blurType?: 'motion' | 'defocus';
+}
+
+export function recommendationsFor(
+  issues: IssueCode[],
+  context: RecommendationContext = {},
+): string[] {
   const seen = new Set<string>();
   const recs: string[] = [];
   for (const code of RECOMMENDATION_ORDER) {
     if (!issues.includes(code)) continue;
     const def = ISSUE_CATALOG[code];
-    if (seen.has(def.recommendation)) continue;
-    seen.add(def.recommendation);
-    recs.push(def.recommendation);
+    const rec =
+      code === 'blurry' && context.blurType
+        ? BLUR_TYPE_RECOMMENDATIONS[context.blurType]
+        : def.recommendation;
+    if (seen.has(rec)) continue;
+    seen.add(rec);
+    recs.push(rec);
   }
   return recs.length > 0 ? recs : ['File is ready to upload.'];
 }
@@ -0,0 +1,275 @@
+import {
+  EXIF_HEADER,
+  EXIF_TAGS,
+  PNG_XMP_KEYWORD,
+  XMP_NAMESPACE,
+  ascii,
+  ifdEntries,
+  jpegSegments,
+  pngChunks,
+  riffChunks,
+  tiffReader,
+} from './image-metadata';
+import { detectSignature } from './validators/file-validator';
+import type { MetadataCategory, SanitizeOptions, SanitizeResult } from './types';
+
+type Removed = Set<MetadataCategory>;
+
+const DEVICE_IDENTIFIER_TAGS = new Set([
+  EXIF_TAGS.cameraOwnerName,
+  EXIF_TAGS.bodySerialNumber,
+  EXIF_TAGS.lensSerialNumber,
+  EXIF_TAGS.cameraSerialNumber,
+]);
+
+const XMP_GPS = 'exif:GPS\\w+';
+const XMP_DEVICE_IDENTIFIERS = '(?:aux|exifEX):\\w*(?:SerialNumber|OwnerName)';
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const b of bytes) crc = CRC_TABLE[(crc ^ b) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function latin1(text: string): Uint8Array {
+  return Uint8Array.from(text, (c) => c.charCodeAt(0));
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
+
+// Drops matching entries from an IFD in place and zeroes their out-of-line values. Nothing is
+// relocated, so every other offset in the block stays valid. The raw 12-byte entries are moved,
+// so tags of unknown types or with unreadable values survive untouched.
+function removeEntries(tiff: Uint8Array, offset: number, remove: (tag: number) => boolean): number {
+  const { view, little, u16, u32 } = tiffReader(tiff);
+  if (offset + 2 > tiff.length) return 0;
+  const count = u16(offset);
+  const end = offset + 2 + count * 12;
+  const raw = Array.from({ length: count }, (_, i) => offset + 2 + i * 12).filter(
+    (at) => at + 12 <= tiff.length,
+  );
+  const removed = raw.filter((at) => remove(u16(at)));
+  if (!removed.length) return 0;
+  const next = end + 4 <= tiff.length ? u32(end) : 0;
+  const kept = raw.filter((at) => !remove(u16(at))).map((at) => tiff.slice(at, at + 12));
+  for (const e of ifdEntries(tiff, offset))
+    if (e.size > 4 && removed.includes(e.offset))
+      tiff.fill(0, e.valueOffset, e.valueOffset + e.size);
+  tiff.fill(0, offset, Math.min(end + 4, tiff.length));
+  view.setUint16(offset, kept.length, little);
+  kept.forEach((entry, i) => tiff.set(entry, offset + 2 + i * 12));
+  const nextAt = offset + 2 + kept.length * 12;
+  if (nextAt + 4 <= tiff.length) view.setUint32(nextAt, next, little);
+  return removed.length;
+}
+
+function orientationOnlyTiff(orientation: number): Uint8Array {
+  return Uint8Array.from([
+    ...[0x4d, 0x4d, 0x00, 0x2a, 0, 0, 0, 8],
+    ...[0, 1, EXIF_TAGS.orientation >> 8, EXIF_TAGS.orientation & 0xff, 0, 3, 0, 0, 0, 1],
+    ...[0, orientation, 0, 0, 0, 0, 0, 0],
+  ]);
+}
+
+// Returns the rewritten TIFF block, or null when nothing in it is worth keeping.
+function scrubExif(
+  tiff: Uint8Array,
+  options: SanitizeOptions,
+  removed: Removed,
+): Uint8Array | null {
+  if (tiff.length < 8) return options.stripAll ? null : tiff;
+  const scrubbed = tiff.slice();
+  const { u16, u32 } = tiffReader(scrubbed);
+  const ifd0 = u32(4);
+  const entries = ifdEntries(scrubbed, ifd0);
+  const pointer = (tag: number) => {
+    const entry = entries.find((e) => e.tag === tag && e.size === 4);
+    return entry && u32(entry.valueOffset);
+  };
+  const orientation = entries.find((e) => e.tag === EXIF_TAGS.orientation && e.type === 3);
+  const orientationValue = orientation ? u16(orientation.valueOffset) : 1;
+  const exifIfd = pointer(EXIF_TAGS.exifIfd);
+  const gpsIfd = pointer(EXIF_TAGS.gpsIfd);
+
+  if (gpsIfd !== undefined && (options.stripGps || options.stripAll)) {
+    if (removeEntries(scrubbed, gpsIfd, () => true)) removed.add('gps');
+    removeEntries(scrubbed, ifd0, (tag) => tag === EXIF_TAGS.gpsIfd);
+  }
+  const isDeviceIdentifier = (tag: number) => DEVICE_IDENTIFIER_TAGS.has(tag);
+  let identifiers = removeEntries(scrubbed, ifd0, isDeviceIdentifier);
+  if (exifIfd !== undefined) identifiers += removeEntries(scrubbed, exifIfd, isDeviceIdentifier);
+  if (identifiers) removed.add('deviceIdentifiers');
+
+  if (!options.stripAll) return scrubbed;
+  removed.add('exif');
+  return orientationValue > 1 ? orientationOnlyTiff(orientationValue) : null;
+}
+
+function removeXmpProperties(xmp: string, names: string): string {
+  return xmp
+    .replace(new RegExp(`\\s(?:${names})="[^"]*"`, 'g'), '')
+    .replace(new RegExp(`<(${names})\\b[^>]*/>`, 'g'), '')
+    .replace(new RegExp(`<(${names})\\b[^>]*>[\\s\\S]*?</\\1>`, 'g'), '');
+}
+
+function scrubXmp(xmp: string, options: SanitizeOptions, removed: Removed): string | null {
+  let scrubbed = xmp;
+  if (options.stripGps || options.stripAll) {
+    const withoutGps = removeXmpProperties(scrubbed, XMP_GPS);
+    if (withoutGps !== scrubbed) removed.add('gps');
+    scrubbed = withoutGps;
+  }
+  const withoutIdentifiers = removeXmpProperties(scrubbed, XMP_DEVICE_IDENTIFIERS);
+  if (withoutIdentifiers !== scrubbed) removed.add('deviceIdentifiers');
+  if (!options.stripAll) return withoutIdentifiers;
+  removed.add('xmp');
+  return null;
+}
+
+function sanitizeJpeg(bytes: Uint8Array, options: SanitizeOptions, removed: Removed): Uint8Array {
+  const segment = (marker: number, body: Uint8Array) =>
+    concat([
+      Uint8Array.from([0xff, marker, (body.length + 2) >> 8, (body.length + 2) & 0xff]),
+      body,
+    ]);
+  const parts = [bytes.subarray(0, 2)];
+  let offset = 2;
+  for (const s of jpegSegments(bytes)) {
+    parts.push(bytes.subarray(offset, s.start));
+    offset = s.end;
+    const body = bytes.subarray(s.dataStart, s.end);
+    const prefix = ascii(body, 0, XMP_NAMESPACE.length);
+    if (s.marker === 0xe1 && prefix.startsWith(EXIF_HEADER)) {
+      const tiff = scrubExif(body.subarray(EXIF_HEADER.length), options, removed);
+      if (tiff) parts.push(segment(s.marker, concat([latin1(EXIF_HEADER), tiff])));
+    } else if (s.marker === 0xe1 && prefix === XMP_NAMESPACE) {
+      const xmp = scrubXmp(ascii(body, XMP_NAMESPACE.length), options, removed);
+      if (xmp !== null) parts.push(segment(s.marker, latin1(XMP_NAMESPACE + xmp)));
+    } else if (options.stripAll && (s.marker === 0xe1 || s.marker === 0xed || s.marker === 0xfe)) {
+      // Extended XMP, Photoshop IPTC and comments.
+      removed.add(s.marker === 0xe1 ? 'xmp' : s.marker === 0xed ? 'iptc' : 'comments');
+    } else parts.push(bytes.subarray(s.start, s.end));
+  }
+  parts.push(bytes.subarray(offset));
+  return concat(parts);
+}
+
+function sanitizePng(bytes: Uint8Array, options: SanitizeOptions, removed: Removed): Uint8Array {
+  const chunk = (type: string, data: Uint8Array) => {
+    const body = concat([latin1(type), data]);
+    const out = new Uint8Array(body.length + 8);
+    const view = new DataView(out.buffer);
+    view.setUint32(0, data.length);
+    out.set(body, 4);
+    view.setUint32(body.length + 4, crc32(body));
+    return out;
+  };
+  const parts = [bytes.subarray(0, 8)];
+  let offset = 8;
+  for (const c of pngChunks(bytes)) {
+    offset = c.end;
+    const data = bytes.subarray(c.dataStart, c.dataEnd);
+    const text = c.type === 'iTXt' ? ascii(data) : '';
+    // Uncompressed XMP; the header before the packet is kept as is.
+    if (text.startsWith(`${PNG_XMP_KEYWORD}\0\0`) && text.includes('<')) {
+      const start = text.indexOf('<');
+      const xmp = scrubXmp(text.slice(start), options, removed);
+      if (xmp !== null) parts.push(chunk(c.type, latin1(text.slice(0, start) + xmp)));
+    } else if (c.type === 'eXIf') {
+      const tiff = scrubExif(data, options, removed);
+      if (tiff) parts.push(chunk(c.type, tiff));
+    } else if (options.stripAll && ['iTXt', 'tEXt', 'zTXt'].includes(c.type)) {
+      removed.add(text.startsWith(PNG_XMP_KEYWORD) ? 'xmp' : 'comments');
+    } else parts.push(bytes.subarray(c.start, c.end));
+  }
+  parts.push(bytes.subarray(offset));
+  return concat(parts);
+}
+
+function sanitizeWebp(bytes: Uint8Array, options: SanitizeOptions, removed: Removed): Uint8Array {
+  const chunk = (type: string, data: Uint8Array) => {
+    const out = new Uint8Array(8 + data.length + (data.length % 2));
+    out.set(latin1(type));
+    new DataView(out.buffer).setUint32(4, data.length, true);
+    out.set(data, 8);
+    return out;
+  };
+  const chunks: { type: string; bytes: Uint8Array }[] = [];
+  for (const c of riffChunks(bytes)) {
+    const data = bytes.subarray(c.dataStart, c.dataEnd);
+    if (c.type === 'EXIF') {
+      // Some encoders keep the JPEG-style "Exif\0\0" prefix.
+      const header = ascii(data, 0, EXIF_HEADER.length) === EXIF_HEADER ? EXIF_HEADER.length : 0;
+      const tiff = scrubExif(data.subarray(header), options, removed);
+      if (tiff)
+        chunks.push({
+          type: c.type,
+          bytes: chunk(c.type, concat([data.subarray(0, header), tiff])),
+        });
+    } else if (c.type === 'XMP ') {
+      const xmp = scrubXmp(ascii(data), options, removed);
+      if (xmp !== null) chunks.push({ type: c.type, bytes: chunk(c.type, latin1(xmp)) });
+    } else chunks.push({ type: c.type, bytes: bytes.slice(c.start, c.end) });
+  }
+  // VP8X flags announce EXIF (bit 3) and XMP (bit 2) chunks, so they must match what is left.
+  const vp8x = chunks.find((c) => c.type === 'VP8X');
+  if (vp8x && vp8x.bytes.length > 8) {
+    const has = (type: string) => chunks.some((c) => c.type === type);
+    vp8x.bytes[8] = (vp8x.bytes[8] & ~0x0c) | (has('EXIF') ? 0x08 : 0) | (has('XMP ') ? 0x04 : 0);
+  }
+  const body = concat([latin1('WEBP'), ...chunks.map((c) => c.bytes)]);
+  const header = concat([latin1('RIFF'), new Uint8Array(4)]);
+  new DataView(header.buffer).setUint32(4, body.length, true);
+  return concat([header, body]);
+}
+
+const SANITIZERS: Record<
+  string,
+  (bytes: Uint8Array, options: SanitizeOptions, removed: Removed) => Uint8Array
+> = {
+  'image/jpeg': sanitizeJpeg,
+  'image/png': sanitizePng,
+  'image/webp': sanitizeWebp,
+};
+
+// Rewrites the metadata containers only; pixel data is copied byte for byte.
+export async function sanitizeFile(
+  file: File,
+  options: SanitizeOptions = {},
+): Promise<SanitizeResult> {
+  const type = (await detectSignature(file))?.type;
+  const sanitize = type ? SANITIZERS[type] : undefined;
+  if (!type || !sanitize)
+    throw new Error(
+      `Cannot sanitize ${type ?? (file.type || 'this file')}: only JPEG, PNG and WebP are supported`,
+    );
+  const bytes = new Uint8Array(await file.slice(0, file.size).arrayBuffer());
+  const removed: Removed = new Set();
+  const output = sanitize(
+    bytes,
+    { stripGps: options.stripGps ?? true, stripAll: options.stripAll ?? false },
+    removed,
+  );
+  return {
+    file: new File([output as BlobPart], file.name, {
+      type: file.type || type,
+      lastModified: file.lastModified,
+    }),
+    removed: [...removed],
+    bytesRemoved: bytes.length - output.length,
+  };
+}
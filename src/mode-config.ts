@@ -20,11 +20,20 @@ export interface ModeDefaults {
   minScore: number;
   method: NonNullable<BlurDetectionConfig['method']>;
   edgeWidthThreshold: number;
+  workingSize: number;
   allowedTypes: string[];
   allowedExtensions: string[];
   checkOrientation: boolean;
+  minScanDpi: number;
+  blockPdfActiveContent: boolean;
+  blockPdfAttachments: boolean;
 }
 
+// `workingSize` is off (0) in every mode, so images are analysed at their own resolution as
+// before. Once set (long side, px), larger images are resampled first and the blur thresholds
+// apply at that size. `edgeWidthThreshold` is a share of the line length, so a document scores the
+// same once resampled; the absolute Laplacian, Tenengrad and Brenner values fall roughly fivefold
+// per doubling of resolution and are only comparable at a fixed working size.
 export const MODE_CONFIG: Record<ValidationMode, ModeDefaults> = {
   general: {
     minWidth: 600,
@@ -33,16 +42,37 @@ export const MODE_CONFIG: Record<ValidationMode, ModeDefaults> = {
     minScore: 70,
     method: 'both',
     edgeWidthThreshold: 0.3,
+    workingSize: 0,
     allowedTypes: [
       'image/jpeg',
       'image/png',
       'image/webp',
       'image/gif',
       'image/bmp',
+      'image/heic',
+      'image/heif',
+      'image/avif',
+      'image/tiff',
       'application/pdf',
     ],
-    allowedExtensions: ['jpg', 'jpeg', 'png', 'webp', 'gif', 'bmp', 'pdf'],
+    allowedExtensions: [
+      'jpg',
+      'jpeg',
+      'png',
+      'webp',
+      'gif',
+      'bmp',
+      'heic',
+      'heif',
+      'avif',
+      'tif',
+      'tiff',
+      'pdf',
+    ],
     checkOrientation: false,
+    minScanDpi: 150,
+    blockPdfActiveContent: true,
+    blockPdfAttachments: false,
   },
   document: {
     minWidth: 1000,
@@ -51,9 +81,22 @@ export const MODE_CONFIG: Record<ValidationMode, ModeDefaults> = {
     minScore: 78,
     method: 'edge',
     edgeWidthThreshold: 0.25,
-    allowedTypes: ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'],
-    allowedExtensions: ['jpg', 'jpeg', 'png', 'webp', 'pdf'],
+    workingSize: 0,
+    allowedTypes: [
+      'image/jpeg',
+      'image/png',
+      'image/webp',
+      'image/heic',
+      'image/heif',
+      'image/avif',
+      'image/tiff',
+      'application/pdf',
+    ],
+    allowedExtensions: ['jpg', 'jpeg', 'png', 'webp', 'heic', 'heif', 'avif', 'tif', 'tiff', 'pdf'],
     checkOrientation: true,
+    minScanDpi: 200,
+    blockPdfActiveContent: true,
+    blockPdfAttachments: true,
   },
   receipt: {
     minWidth: 800,
@@ -62,9 +105,20 @@ export const MODE_CONFIG: Record<ValidationMode, ModeDefaults> = {
     minScore: 72,
     method: 'edge',
     edgeWidthThreshold: 0.25,
-    allowedTypes: ['image/jpeg', 'image/png', 'image/webp'],
-    allowedExtensions: ['jpg', 'jpeg', 'png', 'webp'],
+    workingSize: 0,
+    allowedTypes: [
+      'image/jpeg',
+      'image/png',
+      'image/webp',
+      'image/heic',
+      'image/heif',
+      'image/avif',
+    ],
+    allowedExtensions: ['jpg', 'jpeg', 'png', 'webp', 'heic', 'heif', 'avif'],
     checkOrientation: false,
+    minScanDpi: 150,
+    blockPdfActiveContent: true,
+    blockPdfAttachments: true,
   },
   invoice: {
     minWidth: 1000,
@@ -73,9 +127,22 @@ export const MODE_CONFIG: Record<ValidationMode, ModeDefaults> = {
     minScore: 78,
     method: 'edge',
     edgeWidthThreshold: 0.25,
-    allowedTypes: ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'],
-    allowedExtensions: ['jpg', 'jpeg', 'png', 'webp', 'pdf'],
+    workingSize: 0,
+    allowedTypes: [
+      'image/jpeg',
+      'image/png',
+      'image/webp',
+      'image/heic',
+      'image/heif',
+      'image/avif',
+      'image/tiff',
+      'application/pdf',
+    ],
+    allowedExtensions: ['jpg', 'jpeg', 'png', 'webp', 'heic', 'heif', 'avif', 'tif', 'tiff', 'pdf'],
     checkOrientation: true,
+    minScanDpi: 200,
+    blockPdfActiveContent: true,
+    blockPdfAttachments: true,
   },
   'id-card': {
     minWidth: 900,
@@ -84,9 +151,20 @@ export const MODE_CONFIG: Record<ValidationMode, ModeDefaults> = {
     minScore: 80,
     method: 'edge',
     edgeWidthThreshold: 0.25,
-    allowedTypes: ['image/jpeg', 'image/png', 'image/webp'],
-    allowedExtensions: ['jpg', 'jpeg', 'png', 'webp'],
+    workingSize: 0,
+    allowedTypes: [
+      'image/jpeg',
+      'image/png',
+      'image/webp',
+      'image/heic',
+      'image/heif',
+      'image/avif',
+    ],
+    allowedExtensions: ['jpg', 'jpeg', 'png', 'webp', 'heic', 'heif', 'avif'],
     checkOrientation: true,
+    minScanDpi: 300,
+    blockPdfActiveContent: true,
+    blockPdfAttachments: true,
   },
   passport: {
     minWidth: 900,
@@ -95,9 +173,20 @@ export const MODE_CONFIG: Record<ValidationMode, ModeDefaults> = {
     minScore: 82,
     method: 'edge',
     edgeWidthThreshold: 0.22,
-    allowedTypes: ['image/jpeg', 'image/png', 'image/webp'],
-    allowedExtensions: ['jpg', 'jpeg', 'png', 'webp'],
+    workingSize: 0,
+    allowedTypes: [
+      'image/jpeg',
+      'image/png',
+      'image/webp',
+      'image/heic',
+      'image/heif',
+      'image/avif',
+    ],
+    allowedExtensions: ['jpg', 'jpeg', 'png', 'webp', 'heic', 'heif', 'avif'],
     checkOrientation: true,
+    minScanDpi: 300,
+    blockPdfActiveContent: true,
+    blockPdfAttachments: true,
   },
   'profile-photo': {
     minWidth: 400,
@@ -106,9 +195,20 @@ export const MODE_CONFIG: Record<ValidationMode, ModeDefaults> = {
     minScore: 75,
     method: 'both',
     edgeWidthThreshold: 0.3,
-    allowedTypes: ['image/jpeg', 'image/png', 'image/webp'],
-    allowedExtensions: ['jpg', 'jpeg', 'png', 'webp'],
+    workingSize: 0,
+    allowedTypes: [
+      'image/jpeg',
+      'image/png',
+      'image/webp',
+      'image/heic',
+      'image/heif',
+      'image/avif',
+    ],
+    allowedExtensions: ['jpg', 'jpeg', 'png', 'webp', 'heic', 'heif', 'avif'],
     checkOrientation: false,
+    minScanDpi: 150,
+    blockPdfActiveContent: true,
+    blockPdfAttachments: true,
   },
   ocr: {
     minWidth: 1200,
@@ -117,9 +217,22 @@ export const MODE_CONFIG: Record<ValidationMode, ModeDefaults> = {
     minScore: 80,
     method: 'edge',
     edgeWidthThreshold: 0.18,
-    allowedTypes: ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'],
-    allowedExtensions: ['jpg', 'jpeg', 'png', 'webp', 'pdf'],
+    workingSize: 0,
+    allowedTypes: [
+      'image/jpeg',
+      'image/png',
+      'image/webp',
+      'image/heic',
+      'image/heif',
+      'image/avif',
+      'image/tiff',
+      'application/pdf',
+    ],
+    allowedExtensions: ['jpg', 'jpeg', 'png', 'webp', 'heic', 'heif', 'avif', 'tif', 'tiff', 'pdf'],
     checkOrientation: true,
+    minScanDpi: 300,
+    blockPdfActiveContent: true,
+    blockPdfAttachments: true,
   },
   'ai-input': {
     minWidth: 800,
@@ -128,9 +241,21 @@ export const MODE_CONFIG: Record<ValidationMode, ModeDefaults> = {
     minScore: 72,
     method: 'edge',
     edgeWidthThreshold: 0.3,
-    allowedTypes: ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'],
-    allowedExtensions: ['jpg', 'jpeg', 'png', 'webp', 'pdf'],
+    workingSize: 0,
+    allowedTypes: [
+      'image/jpeg',
+      'image/png',
+      'image/webp',
+      'image/heic',
+      'image/heif',
+      'image/avif',
+      'application/pdf',
+    ],
+    allowedExtensions: ['jpg', 'jpeg', 'png', 'webp', 'heic', 'heif', 'avif', 'pdf'],
     checkOrientation: false,
+    minScanDpi: 150,
+    blockPdfActiveContent: true,
+    blockPdfAttachments: true,
   },
 };
 
@@ -0,0 +1,240 @@
+// Node.js entry (built to lib/node.mjs / lib/node.cjs). Decodes images with the optional `canvas`
+// peer and loads pdf.js from the local `pdfjs-dist` install, then runs the browser code paths.
+
+import { Blob as NodeBlob, File as NodeFile } from 'node:buffer';
+import { readFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import * as core from './index';
+import { configureRuntime } from './runtime';
+import { detectSignature } from './validators/file-validator';
+import type {
+  AbortOptions,
+  FileAnalysisOptions,
+  ImageInput,
+  PDFAnalysisResult,
+  PDFPageValidationResult,
+  PDFPerformanceOptions,
+  BlurAnalysisResult,
+  QualityValidationResult,
+  SanitizeOptions,
+  SanitizeResult,
+  UploadValidationOptions,
+} from './types';
+
+export * from './index';
+
+export type NodeInput = Uint8Array | ArrayBuffer | Blob | string;
+export type NodeImageInput = NodeInput | ImageInput;
+
+// Kept in variables so bundlers leave the optional peers unresolved.
+const CANVAS_MODULE = 'canvas';
+const PDFJS_MODULE = 'pdfjs-dist/legacy/build/pdf.js';
+
+const MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  avif: 'image/avif',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  pdf: 'application/pdf',
+};
+
+let runtime: Promise<void> | null = null;
+
+// Node 18 only exposes File through node:buffer; the shared code paths (toFile, sanitizeFile,
+// the instanceof checks) expect the browser globals, so install them before anything runs.
+const fileGlobals = globalThis as Record<string, unknown>;
+if (typeof fileGlobals.Blob === 'undefined') fileGlobals.Blob = NodeBlob;
+if (typeof fileGlobals.File === 'undefined') fileGlobals.File = NodeFile;
+
+async function loadPdfJS(): Promise<any> {
+  try {
+    const mod = await import(PDFJS_MODULE);
+    return mod.default ?? mod;
+  } catch (error) {
+    throw new Error(
+      `PDF analysis in Node.js requires the optional "pdfjs-dist" package: ${error instanceof Error ? error.message : error}`,
+    );
+  }
+}
+
+async function installNodeRuntime(): Promise<void> {
+  let canvas: any;
+  try {
+    const mod = await import(CANVAS_MODULE);
+    canvas = mod.default ?? mod;
+  } catch (error) {
+    throw new Error(
+      `Image analysis in Node.js requires the optional "canvas" package: ${error instanceof Error ? error.message : error}`,
+    );
+  }
+  if (typeof globalThis.ImageData === 'undefined')
+    (globalThis as Record<string, unknown>).ImageData = canvas.ImageData;
+
+  configureRuntime({
+    createCanvas: (width, height) => canvas.createCanvas(width, height),
+    decodeImage: async (blob) => {
+      const image = await canvas.loadImage(Buffer.from(await blob.arrayBuffer()));
+      const c = canvas.createCanvas(image.width, image.height);
+      const ctx = c.getContext('2d');
+      ctx.drawImage(image, 0, 0);
+      return ctx.getImageData(0, 0, image.width, image.height);
+    },
+    loadPdfJS,
+  });
+}
+
+export function setupNodeRuntime(): Promise<void> {
+  if (!runtime)
+    runtime = installNodeRuntime().catch((error) => {
+      runtime = null;
+      throw error;
+    });
+  return runtime;
+}
+
+// Canvas-like inputs and ImageData pass through; everything else becomes a named File.
+async function toImageInput(input: NodeImageInput): Promise<ImageInput> {
+  const bytes =
+    typeof input === 'string' ||
+    input instanceof Uint8Array ||
+    input instanceof ArrayBuffer ||
+    input instanceof Blob;
+  return bytes ? toFile(input) : input;
+}
+
+export async function toFile(input: NodeInput): Promise<File> {
+  if (input instanceof File) return input;
+  if (typeof input === 'string') {
+    const name = basename(input);
+    const ext = name.split('.').pop()?.toLowerCase() ?? '';
+    return new File([(await readFile(input)) as BlobPart], name, { type: MIME_TYPES[ext] ?? '' });
+  }
+  const blob = input instanceof Blob ? input : new Blob([input as BlobPart]);
+  const signature = await detectSignature(blob);
+  return new File([blob], signature ? `upload.${signature.extension}` : 'upload', {
+    type: signature?.type ?? blob.type,
+  });
+}
+
+// Every entry point installs the Node runtime first and accepts paths, bytes and Blobs.
+export class BlurDetector extends core.BlurDetector {
+  async analyzeImage(
+    input: NodeImageInput,
+    options?: AbortOptions,
+    decoded?: ImageData[],
+  ): Promise<BlurAnalysisResult> {
+    await setupNodeRuntime();
+    return super.analyzeImage(await toImageInput(input), options, decoded);
+  }
+
+  async isBlurry(input: NodeImageInput, options?: AbortOptions): Promise<boolean> {
+    return (await this.analyzeImage(input, options)).isBlurry;
+  }
+}
+
+export class PDFAnalyzer extends core.PDFAnalyzer {
+  async analyzePDF(
+    input: NodeInput,
+    perfOptions?: PDFPerformanceOptions,
+    onPageResult?: (result: BlurAnalysisResult, pageNumber: number) => void,
+  ): Promise<PDFAnalysisResult> {
+    await setupNodeRuntime();
+    return super.analyzePDF(await toFile(input), perfOptions, onPageResult);
+  }
+}
+
+export class BlurryCheck extends core.BlurryCheck {
+  async isImageBlurry(input: NodeImageInput, options?: AbortOptions) {
+    return (await this.analyzeImage(input, options)).isBlurry;
+  }
+
+  async analyzeImage(input: NodeImageInput, options?: AbortOptions) {
+    await setupNodeRuntime();
+    return super.analyzeImage(await toImageInput(input), options);
+  }
+
+  async isPDFGoodQuality(input: NodeInput, perfOptions?: PDFPerformanceOptions) {
+    await setupNodeRuntime();
+    return super.isPDFGoodQuality(await toFile(input), perfOptions);
+  }
+
+  async analyzePDF(input: NodeInput, perfOptions?: PDFPerformanceOptions) {
+    await setupNodeRuntime();
+    return super.analyzePDF(await toFile(input), perfOptions);
+  }
+
+  async analyzeFile(input: NodeInput, options?: FileAnalysisOptions) {
+    await setupNodeRuntime();
+    return super.analyzeFile(await toFile(input), options);
+  }
+
+  async validateImage(input: NodeImageInput, options?: UploadValidationOptions) {
+    await setupNodeRuntime();
+    return super.validateImage(await toImageInput(input), options);
+  }
+
+  async validateUpload(input: NodeInput, options?: UploadValidationOptions) {
+    await setupNodeRuntime();
+    return super.validateUpload(await toFile(input), options);
+  }
+
+  async *validatePDFPages(
+    input: NodeInput,
+    options?: UploadValidationOptions,
+  ): AsyncGenerator<PDFPageValidationResult | QualityValidationResult> {
+    await setupNodeRuntime();
+    yield* super.validatePDFPages(await toFile(input), options);
+  }
+}
+
+export async function sanitizeFile(
+  input: NodeInput,
+  options?: SanitizeOptions,
+): Promise<SanitizeResult> {
+  return core.sanitizeFile(await toFile(input), options);
+}
+
+export async function validateUpload(
+  input: NodeInput,
+  options?: UploadValidationOptions,
+): Promise<QualityValidationResult> {
+  return new BlurryCheck(options).validateUpload(input, options);
+}
+
+export function validatePDFPages(
+  input: NodeInput,
+  options?: UploadValidationOptions,
+): AsyncGenerator<PDFPageValidationResult | QualityValidationResult> {
+  return new BlurryCheck(options).validatePDFPages(input, options);
+}
+
+export async function validateImage(
+  input: NodeImageInput,
+  options?: UploadValidationOptions,
+): Promise<QualityValidationResult> {
+  return new BlurryCheck(options).validateImage(input, options);
+}
+
+export async function analyzeFile(
+  input: NodeInput,
+  options?: FileAnalysisOptions,
+): Promise<BlurAnalysisResult | PDFAnalysisResult> {
+  return new BlurryCheck(options).analyzeFile(input, options);
+}
+
+export async function isImageBlurry(input: NodeImageInput, config?: FileAnalysisOptions) {
+  return new BlurryCheck(config).isImageBlurry(input, { signal: config?.signal });
+}
+
+export async function isPDFGoodQuality(input: NodeInput, config?: FileAnalysisOptions) {
+  return new BlurryCheck(config).isPDFGoodQuality(input, { signal: config?.signal });
+}
+
+export default BlurryCheck;
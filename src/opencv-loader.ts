@@ -1,124 +1,105 @@
+import { DEFAULT_OPENCV_URL, OPENCV_LOAD_TIMEOUT_MS } from './constants';
+
+export interface OpenCVLoaderOptions {
+  cv?: any;
+  integrity?: string;
+  nonce?: string;
+  timeoutMs?: number;
+}
+
 export class OpenCVLoader {
-  private static instance: OpenCVLoader;
-  private loading = false;
-  private loaded = false;
+  private static instances = new Map<string, OpenCVLoader>();
+  private cv: any = null;
+  private loading: Promise<void> | null = null;
   private openCvUrl: string;
+  private options: OpenCVLoaderOptions;
 
-  constructor(openCvUrl = 'https://docs.opencv.org/4.5.4/opencv.js') {
+  constructor(openCvUrl = DEFAULT_OPENCV_URL, options: OpenCVLoaderOptions = {}) {
     this.openCvUrl = openCvUrl;
+    this.options = options;
+    if (options.cv) this.cv = options.cv;
   }
 
-  static getInstance(openCvUrl?: string): OpenCVLoader {
-    if (!OpenCVLoader.instance) OpenCVLoader.instance = new OpenCVLoader(openCvUrl);
-    return OpenCVLoader.instance;
+  static getInstance(
+    openCvUrl = DEFAULT_OPENCV_URL,
+    options: OpenCVLoaderOptions = {},
+  ): OpenCVLoader {
+    if (options.cv) return new OpenCVLoader(openCvUrl, options);
+    // Keyed on every load option so a later integrity, nonce or timeout is never silently dropped.
+    const key = JSON.stringify([openCvUrl, options.integrity, options.nonce, options.timeoutMs]);
+    let instance = OpenCVLoader.instances.get(key);
+    if (!instance) {
+      instance = new OpenCVLoader(openCvUrl, options);
+      OpenCVLoader.instances.set(key, instance);
+    }
+    return instance;
   }
 
   async loadOpenCV(): Promise<void> {
+    if (this.cv) return;
     if (typeof window === 'undefined') throw new Error('OpenCV.js requires a browser environment');
-    if (this.loaded && window.cv) return;
-
-    const existing = document.querySelector('#opencv-script') as HTMLScriptElement | null;
-    if (existing && window.cv) {
-      this.loaded = true;
-      return;
-    }
-    if (existing && !window.cv) {
-      this.loading = true;
-      try {
-        await waitForExistingScript(existing);
-        this.loaded = true;
-        this.loading = false;
-      } catch {
-        existing.remove();
-        this.loading = false;
-      }
-    }
+    if (!this.loading)
+      this.loading = this.injectScript().finally(() => {
+        this.loading = null;
+      });
+    return this.loading;
+  }
 
-    if (this.loaded && window.cv) return;
-    if (this.loading) return this.waitForLoad();
+  private injectScript(): Promise<void> {
+    const existing = Array.from(
+      document.querySelectorAll<HTMLScriptElement>('script[data-opencv-url]'),
+    ).find((s) => s.dataset.opencvUrl === this.openCvUrl);
+    const script = existing ?? document.createElement('script');
 
-    this.loading = true;
-    const script = document.createElement('script');
-    script.src = this.openCvUrl;
-    script.async = true;
-    script.id = 'opencv-script';
+    return new Promise<void>((resolve, reject) => {
+      let poll: ReturnType<typeof setInterval> | undefined;
+      const timer = setTimeout(
+        () => fail(new Error('OpenCV loading timeout')),
+        this.options.timeoutMs ?? OPENCV_LOAD_TIMEOUT_MS,
+      );
+      const fail = (error: Error) => {
+        clearInterval(poll);
+        clearTimeout(timer);
+        script.remove();
+        reject(error);
+      };
+      const waitForRuntime = () => {
+        clearInterval(poll);
+        poll = setInterval(() => {
+          if (!window.cv) return;
+          clearInterval(poll);
+          clearTimeout(timer);
+          this.cv = window.cv;
+          resolve();
+        }, 100);
+      };
 
-    try {
-      await new Promise<void>((resolve, reject) => {
-        script.onload = () => {
-          const check = setInterval(() => {
-            if (window.cv) {
-              clearInterval(check);
-              this.loaded = true;
-              this.loading = false;
-              resolve();
-            }
-          }, 100);
-          setTimeout(() => {
-            clearInterval(check);
-            this.loading = false;
-            reject(new Error('OpenCV loading timeout'));
-          }, 10000);
-        };
-        script.onerror = () => {
-          this.loading = false;
-          reject(new Error('Failed to load OpenCV'));
-        };
-        document.body.appendChild(script);
+      script.addEventListener('load', waitForRuntime, { once: true });
+      script.addEventListener('error', () => fail(new Error('Failed to load OpenCV')), {
+        once: true,
       });
-    } catch (error) {
-      this.loading = false;
-      throw error;
-    }
-  }
-
-  private async waitForLoad(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const check = setInterval(() => {
-        if (!this.loading) {
-          clearInterval(check);
-          if (this.loaded && window.cv) resolve();
-          else reject(new Error('OpenCV failed to load'));
-        }
-      }, 100);
-      setTimeout(() => {
-        clearInterval(check);
-        reject(new Error('OpenCV loading timeout'));
-      }, 15000);
+      if (existing) {
+        waitForRuntime();
+        return;
+      }
+      script.src = this.openCvUrl;
+      script.async = true;
+      script.dataset.opencvUrl = this.openCvUrl;
+      if (this.options.integrity) {
+        script.integrity = this.options.integrity;
+        script.crossOrigin = 'anonymous';
+      }
+      if (this.options.nonce) script.nonce = this.options.nonce;
+      document.body.appendChild(script);
     });
   }
 
   isLoaded(): boolean {
-    return this.loaded && typeof window !== 'undefined' && !!window.cv;
+    return !!this.cv;
   }
 
   getCV(): any {
     if (!this.isLoaded()) throw new Error('OpenCV is not loaded. Call loadOpenCV() first.');
-    return window.cv;
+    return this.cv;
   }
 }
-
-function waitForExistingScript(script: HTMLScriptElement): Promise<void> {
-  return new Promise((resolve, reject) => {
-    if (window.cv) return resolve();
-    script.addEventListener(
-      'load',
-      () => {
-        const check = setInterval(() => {
-          if (window.cv) {
-            clearInterval(check);
-            resolve();
-          }
-        }, 100);
-        setTimeout(() => {
-          clearInterval(check);
-          reject(new Error('OpenCV init timeout'));
-        }, 10000);
-      },
-      { once: true },
-    );
-    script.addEventListener('error', () => reject(new Error('OpenCV script failed')), {
-      once: true,
-    });
-  });
-}
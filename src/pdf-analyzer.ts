@@ -1,16 +1,124 @@
 import { clamp } from './utils';
 import { BlurDetector } from './blur-detector';
-import { BlurDetectionConfig, PDFAnalysisResult, BlurAnalysisResult } from './types';
+import { createCanvas, resampleImageData } from './image-utils';
+import { runtimeAdapters } from './runtime';
+import {
+  DEFAULT_PDFJS_URL,
+  DEFAULT_PDFJS_WORKER_URL,
+  PDF_POINTS_PER_INCH,
+  PDF_RENDER_SCALES,
+  PDF_TEXT_RENDER_SCALE,
+  SCAN_IMAGE_MIN_PAGE_COVERAGE,
+} from './constants';
+import { WorkerClient, workerSafeConfig } from './worker-client';
+import { AnalysisAbortedError, PDFPasswordError, abortCheckpoint, throwIfAborted } from './errors';
+import {
+  BlurDetectionConfig,
+  PDFAnalysisResult,
+  BlurAnalysisResult,
+  CanvasLike,
+  EmbeddedImageInfo,
+  PDFPerformanceOptions,
+  PDFPermissions,
+  PDFProgressStage,
+  PDFSecurityScan,
+} from './types';
+
+interface PageOutcome {
+  text: string;
+  scanned: boolean;
+  result?: BlurAnalysisResult;
+  error?: string;
+  security?: PageSecurity;
+}
+
+interface PageSecurity {
+  javascript: boolean;
+  attachments: string[];
+}
+
+// Scales are relative to PDF points, so scale 1 is 72 DPI whatever the page size.
+function resolveRenderScales(options: PDFPerformanceOptions = {}) {
+  const { renderScales, renderDpi } = options;
+  const configured =
+    renderScales ??
+    (renderDpi === undefined
+      ? undefined
+      : (Array.isArray(renderDpi) ? renderDpi : [renderDpi]).map((d) => d / PDF_POINTS_PER_INCH));
+  const maxRenderScale = options.maxRenderScale ?? (configured ? Infinity : 2.0);
+  const candidates = [...new Set(configured ?? PDF_RENDER_SCALES)]
+    .filter((s) => s > 0 && s <= maxRenderScale)
+    .sort((a, b) => a - b);
+  const scales = candidates.length ? candidates : [Math.min(PDF_RENDER_SCALES[0], maxRenderScale)];
+  const textScale = configured
+    ? scales[scales.length - 1]
+    : Math.min(PDF_TEXT_RENDER_SCALE, maxRenderScale);
+  return { scales, textScale };
+}
+
+// pdf.js PermissionFlag bits; getPermissions() returns null when nothing is restricted.
+const PERMISSION_FLAGS: Record<Exclude<keyof PDFPermissions, 'restricted'>, number> = {
+  print: 0x04,
+  modify: 0x08,
+  copy: 0x10,
+  annotate: 0x20,
+  fillForms: 0x100,
+  assemble: 0x400,
+  printHighQuality: 0x800,
+};
+
+// pdf.js exposes scripts, attachments and XFA but not /Launch actions, and only sees annotations on
+// the pages it loads, so the raw bytes are also searched for these names. Names inside compressed
+// object streams are only found through the pdf.js APIs.
+const SECURITY_NAME_TOKENS = ['/JavaScript', '/JS', '/Launch', '/XFA', '/EmbeddedFiles'];
+const NAME_DELIMITERS = new Set(Array.from('\0\t\n\f\r ()<>[]{}/%', (c) => c.charCodeAt(0)));
+
+function findNameTokens(bytes: Uint8Array, names: string[]): Set<string> {
+  const found = new Set<string>();
+  const codes = names.map((name) => Array.from(name, (c) => c.charCodeAt(0)));
+  for (let i = 0; i < bytes.length; i++) {
+    if (bytes[i] !== 0x2f) continue;
+    for (let n = 0; n < codes.length; n++) {
+      const code = codes[n];
+      if (found.has(names[n])) continue;
+      let k = 1;
+      while (k < code.length && bytes[i + k] === code[k]) k++;
+      // A name runs until whitespace or a delimiter, so `/JS` does not match `/JSON`.
+      if (k === code.length && (i + k >= bytes.length || NAME_DELIMITERS.has(bytes[i + k])))
+        found.add(names[n]);
+    }
+  }
+  return found;
+}
+
+// Same composition as pdf.js Util.transform: applies `m` inside the current matrix `ctm`.
+function multiplyMatrix(ctm: number[], m: number[]): number[] {
+  return [
+    ctm[0] * m[0] + ctm[2] * m[1],
+    ctm[1] * m[0] + ctm[3] * m[1],
+    ctm[0] * m[2] + ctm[2] * m[3],
+    ctm[1] * m[2] + ctm[3] * m[3],
+    ctm[0] * m[4] + ctm[2] * m[5] + ctm[4],
+    ctm[1] * m[4] + ctm[3] * m[5] + ctm[5],
+  ];
+}
+
+function releaseCanvas(canvas: CanvasLike) {
+  canvas.width = 0;
+  canvas.height = 0;
+}
 
 export class PDFAnalyzer {
   private blurDetector: BlurDetector;
   private config: BlurDetectionConfig;
   private pdfLib: any = null;
   private loading: boolean = false;
+  private workerClient: WorkerClient | null;
 
   constructor(config: BlurDetectionConfig = {}) {
     this.config = config;
     this.blurDetector = new BlurDetector(config);
+    this.workerClient = config.worker instanceof WorkerClient ? config.worker : null;
   }
 
   private calculateRenderedPageMetrics(
@@ -147,10 +255,28 @@ export class PDFAnalyzer {
     if (this.config.debug) console.log(`[PDFAnalyzer] ${message}`, ...args);
   }
 
+  private pdfjsWorkerUrl(): string {
+    if (this.config.pdfjsWorkerUrl) return this.config.pdfjsWorkerUrl;
+    if (!this.config.pdfjsUrl) return DEFAULT_PDFJS_WORKER_URL;
+    const derived = this.config.pdfjsUrl.replace(/pdf(\.min)?\.(m?js)$/, 'pdf.worker$1.$2');
+    return derived !== this.config.pdfjsUrl ? derived : DEFAULT_PDFJS_WORKER_URL;
+  }
+
   private async loadPdfJS(): Promise<void> {
+    if (this.pdfLib) return;
+    if (this.config.pdfjsLib) {
+      if (this.config.pdfjsWorkerUrl)
+        this.config.pdfjsLib.GlobalWorkerOptions.workerSrc = this.config.pdfjsWorkerUrl;
+      this.pdfLib = this.config.pdfjsLib;
+      return;
+    }
+    const { loadPdfJS } = runtimeAdapters();
+    if (loadPdfJS) {
+      this.pdfLib = await loadPdfJS();
+      return;
+    }
     if (typeof window === 'undefined')
       throw new Error('PDF.js can only be loaded in browser environments');
-    if (this.pdfLib) return;
     if (this.loading) return this.waitForLoad();
 
     this.loading = true;
@@ -159,13 +285,17 @@ export class PDFAnalyzer {
 
       await new Promise<void>((resolve, reject) => {
         const script = document.createElement('script');
-        script.src = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.min.js';
+        script.src = this.config.pdfjsUrl ?? DEFAULT_PDFJS_URL;
         script.async = true;
         script.id = 'pdfjs-script';
+        if (this.config.pdfjsIntegrity) {
+          script.integrity = this.config.pdfjsIntegrity;
+          script.crossOrigin = 'anonymous';
+        }
+        if (this.config.nonce) script.nonce = this.config.nonce;
         script.onload = () => {
           if (window.pdfjsLib) {
-            window.pdfjsLib.GlobalWorkerOptions.workerSrc =
-              'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js';
+            window.pdfjsLib.GlobalWorkerOptions.workerSrc = this.pdfjsWorkerUrl();
             this.pdfLib = window.pdfjsLib;
             this.loading = false;
             resolve();
@@ -202,40 +332,245 @@ export class PDFAnalyzer {
     });
   }
 
+  private async renderPage(
+    page: any,
+    params: Record<string, unknown>,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    throwIfAborted(signal);
+    const task = page.render(params);
+    const cancel = () => task.cancel?.();
+    signal?.addEventListener('abort', cancel, { once: true });
+    try {
+      await task.promise;
+    } catch (error) {
+      throwIfAborted(signal);
+      throw error;
+    } finally {
+      signal?.removeEventListener('abort', cancel);
+    }
+  }
+
+  async analyzeRenderedPage(
+    imageData: ImageData,
+    pageNumber: number,
+    rotation: number,
+    signal?: AbortSignal,
+  ): Promise<BlurAnalysisResult> {
+    const pdfPageMetrics = this.calculateRenderedPageMetrics(imageData, pageNumber, rotation);
+    const pdfBlurDetector = new BlurDetector({
+      ...this.config,
+      edgeWidthThreshold: Math.min(this.config.edgeWidthThreshold || 0.5, 0.25),
+      method: 'edge',
+      roi: undefined,
+      workingSize: undefined,
+      debug: this.config.debug,
+    });
+    const result = await pdfBlurDetector.analyzeImage(imageData, { signal });
+    result.metrics.pdfPageMetrics = pdfPageMetrics;
+    return result;
+  }
+
+  private async openDocument(data: ArrayBuffer, password?: string): Promise<any> {
+    try {
+      return await this.pdfLib.getDocument({ data: new Uint8Array(data), password }).promise;
+    } catch (error: any) {
+      if (error?.name !== 'PasswordException') throw error;
+      const incorrect = error.code === (this.pdfLib.PasswordResponses?.INCORRECT_PASSWORD ?? 2);
+      throw new PDFPasswordError(incorrect ? 'incorrect_password' : 'password_required');
+    }
+  }
+
+  private async readPermissions(pdf: any): Promise<PDFPermissions | undefined> {
+    if (typeof pdf.getPermissions !== 'function') return undefined;
+    const flags: number[] | null = await pdf.getPermissions().catch(() => null);
+    const allowed = (bit: number) => !flags || flags.includes(bit);
+    const permissions = Object.fromEntries(
+      Object.entries(PERMISSION_FLAGS).map(([name, bit]) => [name, allowed(bit)]),
+    ) as Omit<PDFPermissions, 'restricted'>;
+    return { restricted: Object.values(permissions).some((ok) => !ok), ...permissions };
+  }
+
+  private async scanDocumentSecurity(pdf: any, tokens: Set<string>): Promise<PDFSecurityScan> {
+    const call = async (method: string) =>
+      typeof pdf[method] === 'function' ? pdf[method]().catch(() => null) : null;
+    const [jsActions, scripts, attachments, metadata] = await Promise.all([
+      call('getJSActions'),
+      call('getJavaScript'),
+      call('getAttachments'),
+      call('getMetadata'),
+    ]);
+    const javascript =
+      tokens.has('/JavaScript') ||
+      tokens.has('/JS') ||
+      Object.keys(jsActions ?? {}).length > 0 ||
+      (scripts?.length ?? 0) > 0;
+    const launchActions = tokens.has('/Launch');
+    const xfa = tokens.has('/XFA') || !!pdf.isPureXfa || !!metadata?.info?.IsXFAPresent;
+    const names = Object.entries<any>(attachments ?? {}).map(
+      ([key, file]) => file?.filename ?? key,
+    );
+    return {
+      hasActiveContent: javascript || launchActions || xfa,
+      javascript,
+      launchActions,
+      xfa,
+      hasAttachments: names.length > 0 || tokens.has('/EmbeddedFiles'),
+      attachments: names,
+    };
+  }
+
+  private async scanPageSecurity(page: any): Promise<PageSecurity> {
+    const [annotations, jsActions] = await Promise.all([
+      typeof page.getAnnotations === 'function' ? page.getAnnotations().catch(() => []) : [],
+      typeof page.getJSActions === 'function' ? page.getJSActions().catch(() => null) : null,
+    ]);
+    return {
+      // pdf.js only collects JavaScript actions into an annotation's `actions`.
+      javascript:
+        Object.keys(jsActions ?? {}).length > 0 ||
+        annotations.some((a: any) => Object.keys(a.actions ?? {}).length > 0),
+      attachments: annotations
+        .map((a: any) => (a.file ?? a.attachment)?.filename)
+        .filter((name: unknown): name is string => typeof name === 'string'),
+    };
+  }
+
+  private async renderPageImage(
+    page: any,
+    canvas: CanvasLike,
+    scale: number,
+    signal?: AbortSignal,
+  ): Promise<ImageData> {
+    const viewport = page.getViewport({ scale });
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Could not get 2D context from canvas');
+    canvas.width = viewport.width;
+    canvas.height = viewport.height;
+    await this.renderPage(page, { canvasContext: context, viewport }, signal);
+    return context.getImageData(0, 0, canvas.width, canvas.height);
+  }
+
+  // Lower scales are box-filtered from the single highest-scale render instead of re-rasterised.
+  private imageAtScale(page: any, rendered: ImageData, renderScale: number, scale: number) {
+    if (scale === renderScale) return rendered;
+    const viewport = page.getViewport({ scale });
+    return resampleImageData(
+      rendered,
+      Math.max(1, Math.floor(viewport.width)),
+      Math.max(1, Math.floor(viewport.height)),
+    );
+  }
+
+  // Image XObjects are painted into the unit square, so the CTM at paint time gives their size
+  // on the page in points.
+  private async findEmbeddedImages(
+    page: any,
+    pageSize: { widthPoints: number; heightPoints: number },
+  ): Promise<EmbeddedImageInfo[]> {
+    const OPS = this.pdfLib?.OPS;
+    if (!OPS || typeof page.getOperatorList !== 'function') return [];
+    let operatorList: { fnArray: number[]; argsArray: any[][] };
+    try {
+      operatorList = await page.getOperatorList();
+    } catch (error) {
+      this.log('Could not read operator list:', error);
+      return [];
+    }
+
+    const imageOps = new Set([
+      OPS.paintImageXObject,
+      OPS.paintJpegXObject,
+      OPS.paintInlineImageXObject,
+    ]);
+    const pageArea = Math.max(pageSize.widthPoints * pageSize.heightPoints, 1);
+    const stack: number[][] = [];
+    const images: EmbeddedImageInfo[] = [];
+    let ctm = [1, 0, 0, 1, 0, 0];
+
+    operatorList.fnArray.forEach((fn, n) => {
+      const args = operatorList.argsArray[n] ?? [];
+      if (fn === OPS.save) stack.push(ctm);
+      else if (fn === OPS.restore) ctm = stack.pop() ?? ctm;
+      else if (fn === OPS.transform) ctm = multiplyMatrix(ctm, args);
+      else if (fn === OPS.paintFormXObjectBegin) {
+        stack.push(ctm);
+        if (Array.isArray(args[0])) ctm = multiplyMatrix(ctm, args[0]);
+      } else if (fn === OPS.paintFormXObjectEnd) ctm = stack.pop() ?? ctm;
+      else if (imageOps.has(fn)) {
+        const width = typeof args[1] === 'number' ? args[1] : args[0]?.width;
+        const height = typeof args[2] === 'number' ? args[2] : args[0]?.height;
+        const displayWidthPoints = Math.hypot(ctm[0], ctm[1]);
+        const displayHeightPoints = Math.hypot(ctm[2], ctm[3]);
+        if (!width || !height || !displayWidthPoints || !displayHeightPoints) return;
+        const dpiX = width / (displayWidthPoints / PDF_POINTS_PER_INCH);
+        const dpiY = height / (displayHeightPoints / PDF_POINTS_PER_INCH);
+        images.push({
+          width,
+          height,
+          displayWidthPoints,
+          displayHeightPoints,
+          dpiX: Math.round(dpiX * 10) / 10,
+          dpiY: Math.round(dpiY * 10) / 10,
+          dpi: Math.round(Math.min(dpiX, dpiY) * 10) / 10,
+          pageCoverage: Math.min(1, (displayWidthPoints * displayHeightPoints) / pageArea),
+        });
+      }
+    });
+    return images;
+  }
+
   private async checkPdfPageQuality(
-    pdf: any,
+    page: any,
     pageNumber: number,
-    maxRenderScale = 2.0,
+    rendered: ImageData,
+    renderScale: number,
+    scales: number[],
+    scanResolution: boolean,
+    signal?: AbortSignal,
   ): Promise<BlurAnalysisResult> {
-    const page = await pdf.getPage(pageNumber);
-    const candidateScales = [1.0, 1.5, 2.0];
-    const scales = candidateScales.filter((s) => s <= maxRenderScale);
     const results: BlurAnalysisResult[] = [];
+    const rotation = page.getViewport({ scale: renderScale }).rotation ?? page.rotate ?? 0;
+    const base = page.getViewport({ scale: 1 });
+    const pageSize = {
+      widthPoints: base.width,
+      heightPoints: base.height,
+      widthInches: base.width / PDF_POINTS_PER_INCH,
+      heightInches: base.height / PDF_POINTS_PER_INCH,
+    };
+    // Walking the operator list parses the page a second time, so it only runs on request.
+    const embeddedImages = scanResolution
+      ? await this.findEmbeddedImages(page, pageSize)
+      : undefined;
+    const scanImages = (embeddedImages ?? []).filter(
+      (img) => img.pageCoverage >= SCAN_IMAGE_MIN_PAGE_COVERAGE,
+    );
+    const scanDpi = scanImages.length ? Math.min(...scanImages.map((img) => img.dpi)) : undefined;
 
     for (const scale of scales) {
-      const viewport = page.getViewport({ scale });
-      const canvas = this.config.canvas || document.createElement('canvas');
-      const context = canvas.getContext('2d');
-      if (!context) throw new Error('Could not get 2D context from canvas');
-      canvas.width = viewport.width;
-      canvas.height = viewport.height;
-      await page.render({ canvasContext: context, viewport }).promise;
-      const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
-      const pdfPageMetrics = this.calculateRenderedPageMetrics(
-        imageData,
-        pageNumber,
-        viewport.rotation ?? page.rotate ?? 0,
-      );
-
-      const pdfBlurDetector = new BlurDetector({
-        ...this.config,
-        edgeWidthThreshold: Math.min(this.config.edgeWidthThreshold || 0.5, 0.25),
-        method: 'edge',
-        debug: this.config.debug,
-      });
-      const result = await pdfBlurDetector.analyzeImage(imageData);
+      await abortCheckpoint(signal);
+      const imageData = this.imageAtScale(page, rendered, renderScale, scale);
+      const result = this.workerClient
+        ? await this.workerClient.run<BlurAnalysisResult>(
+            'analyzeRenderedPage',
+            { imageData, pageNumber, rotation, config: workerSafeConfig(this.config) },
+            // The full-resolution render is still needed for text analysis, so it is copied.
+            imageData === rendered ? [] : [imageData.data.buffer],
+            () => this.analyzeRenderedPage(imageData, pageNumber, rotation, signal),
+            signal,
+            this.config.workerTimeoutMs,
+          )
+        : await this.analyzeRenderedPage(imageData, pageNumber, rotation, signal);
+      if (result.metrics.pdfPageMetrics)
+        result.metrics.pdfPageMetrics = {
+          ...result.metrics.pdfPageMetrics,
+          pageSize,
+          renderScale: scale,
+          effectiveDpi: Math.round((imageData.width / pageSize.widthInches) * 10) / 10,
+          embeddedImages,
+          scanDpi,
+        };
       result.method = `${result.method} (scale ${scale}x)`;
-      result.metrics.pdfPageMetrics = pdfPageMetrics;
       results.push(result);
       this.log(`Page ${pageNumber} at ${scale}x scale:`, result);
     }
@@ -254,6 +589,7 @@ export class PDFAnalyzer {
           isBlurry: r.isBlurry,
           confidence: r.confidence,
           edgeAnalysis: r.metrics.edgeAnalysis,
+          effectiveDpi: r.metrics.pdfPageMetrics?.effectiveDpi,
         })),
       },
     };
@@ -297,34 +633,29 @@ export class PDFAnalyzer {
   }
 
   private async analyzeTextSharpness(
-    pdf: any,
+    page: any,
     pageNumber: number,
-    maxRenderScale = 3.0,
+    rendered: ImageData,
+    renderScale: number,
+    textScale: number,
+    signal?: AbortSignal,
   ): Promise<{ textSharpnessScore: number; isTextBlurry: boolean; textMetrics: any }> {
-    const page = await pdf.getPage(pageNumber);
-    const textContent = await page.getTextContent();
-    if (textContent.items.length === 0)
-      return {
-        textSharpnessScore: 0,
-        isTextBlurry: true,
-        textMetrics: { reason: 'No text found' },
-      };
-
-    const scale = Math.min(3.0, maxRenderScale);
-    const viewport = page.getViewport({ scale });
-    const canvas = document.createElement('canvas');
-    const context = canvas.getContext('2d');
-    if (!context) throw new Error('Could not get 2D context for text analysis');
-    canvas.width = viewport.width;
-    canvas.height = viewport.height;
-    await page.render({ canvasContext: context, viewport, intent: 'print' }).promise;
-    const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
-    const result = this.calculateTextSharpness(imageData);
+    const imageData = this.imageAtScale(page, rendered, renderScale, textScale);
+    const result = this.workerClient
+      ? await this.workerClient.run<ReturnType<PDFAnalyzer['calculateTextSharpness']>>(
+          'textSharpness',
+          { imageData, config: workerSafeConfig(this.config) },
+          [imageData.data.buffer],
+          async () => this.calculateTextSharpness(imageData),
+          signal,
+          this.config.workerTimeoutMs,
+        )
+      : this.calculateTextSharpness(imageData);
     this.log(`Page ${pageNumber} text sharpness analysis:`, result);
     return result;
   }
 
-  private calculateTextSharpness(imageData: ImageData): {
+  calculateTextSharpness(imageData: ImageData): {
     textSharpnessScore: number;
     isTextBlurry: boolean;
     textMetrics: any;
@@ -383,31 +714,122 @@ export class PDFAnalyzer {
     };
   }
 
+  private async analyzePage(
+    pdf: any,
+    i: number,
+    totalPages: number,
+    canvas: CanvasLike,
+    { scales, textScale }: ReturnType<typeof resolveRenderScales>,
+    progress: (page: number, stage: PDFProgressStage) => void,
+    scanResolution: boolean,
+    signal?: AbortSignal,
+  ): Promise<PageOutcome> {
+    this.log(`Analyzing page ${i}/${totalPages}`);
+    progress(i, 'rendering');
+    const page = await pdf.getPage(i);
+    const textContent = await page.getTextContent();
+    const outcome: PageOutcome = {
+      text: textContent.items.map((item: any) => item.str).join(' '),
+      scanned: textContent.items.length === 0,
+      security: await this.scanPageSecurity(page),
+    };
+
+    try {
+      const contentAnalysis = this.analyzePageContent(textContent, i);
+      const hasText = textContent.items.length > 0;
+      const renderScale = Math.max(...scales, hasText ? textScale : 0);
+      const rendered = await this.renderPageImage(page, canvas, renderScale, signal);
+      const pageAnalysis = await this.checkPdfPageQuality(
+        page,
+        i,
+        rendered,
+        renderScale,
+        scales,
+        scanResolution,
+        signal,
+      );
+      outcome.result = pageAnalysis;
+
+      if (hasText) {
+        try {
+          await abortCheckpoint(signal);
+          progress(i, 'text-analysis');
+          const textSharpness = await this.analyzeTextSharpness(
+            page,
+            i,
+            rendered,
+            renderScale,
+            textScale,
+            signal,
+          );
+          let finalIsBlurry = pageAnalysis.isBlurry || textSharpness.isTextBlurry;
+          if (contentAnalysis.isCertificateDocument) {
+            finalIsBlurry = textSharpness.textSharpnessScore < 0.3;
+            this.log(`Page ${i} identified as certificate - lenient blur`);
+          } else if (contentAnalysis.isLikelyHeaderPage) {
+            finalIsBlurry = textSharpness.textSharpnessScore < 0.5;
+            this.log(`Page ${i} identified as header/logo - lenient blur`);
+          }
+
+          outcome.result = {
+            ...pageAnalysis,
+            isBlurry: finalIsBlurry,
+            confidence: Math.max(pageAnalysis.confidence, textSharpness.textSharpnessScore),
+            method: `${pageAnalysis.method} + Text Analysis${contentAnalysis.isCertificateDocument ? ' (Certificate-adjusted)' : contentAnalysis.isLikelyHeaderPage ? ' (Header-adjusted)' : ''}`,
+            metrics: { ...pageAnalysis.metrics, textSharpness, contentAnalysis },
+          };
+          this.log(`Page ${i} combined analysis done`);
+        } catch (textError) {
+          if (textError instanceof AnalysisAbortedError) throw textError;
+          this.log(`Text analysis failed for page ${i}:`, textError);
+        }
+      }
+    } catch (error) {
+      if (error instanceof AnalysisAbortedError) throw error;
+      this.log(`Failed to analyze page ${i}:`, error);
+      outcome.error = error instanceof Error ? error.message : 'Unknown page analysis error';
+    }
+    progress(i, 'page-complete');
+    return outcome;
+  }
+
   async analyzePDF(
     file: File,
-    perfOptions?: {
-      maxPages?: number;
-      samplePages?: 'first' | 'all' | 'smart' | number[];
-      maxRenderScale?: number;
-      timeoutMs?: number;
-    },
+    perfOptions?: PDFPerformanceOptions,
+    onPageResult?: (result: BlurAnalysisResult, pageNumber: number) => void,
   ): Promise<PDFAnalysisResult> {
     this.log('Starting PDF analysis for file:', file.name);
+    const startedAt = Date.now();
     const maxPages = perfOptions?.maxPages ?? Infinity;
     const samplePages = perfOptions?.samplePages ?? 'all';
-    const maxRenderScale = perfOptions?.maxRenderScale ?? 2.0;
+    const renderScales = resolveRenderScales(perfOptions);
     const timeoutMs = perfOptions?.timeoutMs ?? 30000;
+    const signal = perfOptions?.signal;
+    let totalPages = 0;
+    const progress = (page: number, stage: PDFProgressStage) =>
+      perfOptions?.onProgress?.({ page, totalPages, stage, elapsedMs: Date.now() - startedAt });
 
+    throwIfAborted(signal);
+    progress(0, 'loading');
     if (!this.pdfLib) await this.loadPdfJS();
 
     try {
       const arrayBuffer = await file.arrayBuffer();
-      const pdf = await this.pdfLib.getDocument({ data: new Uint8Array(arrayBuffer) }).promise;
-      const totalPages = pdf.numPages;
+      throwIfAborted(signal);
+      // Scanned before pdf.js, which may transfer the buffer to its worker.
+      const tokens = findNameTokens(new Uint8Array(arrayBuffer), SECURITY_NAME_TOKENS);
+      const pdf = await this.openDocument(arrayBuffer, perfOptions?.password);
+      totalPages = pdf.numPages;
+      const permissions = await this.readPermissions(pdf);
+      const security = await this.scanDocumentSecurity(pdf, tokens);
       let extractedText = '',
         isScanned = false;
       const pageResults: BlurAnalysisResult[] = [],
         corruptedPages: Array<{ page: number; error: string }> = [];
+      const addPageResult = (result: BlurAnalysisResult, pageNumber: number) => {
+        pageResults.push(result);
+        onPageResult?.(result, pageNumber);
+      };
       let incomplete = false,
         incompleteReason: string | undefined;
 
@@ -433,58 +855,63 @@ export class PDFAnalyzer {
         (p) => !pagesToAnalyze.includes(p),
       );
       const startTime = Date.now();
+      const concurrency = Math.max(
+        1,
+        Math.min(Math.floor(perfOptions?.concurrency ?? 1), pagesToAnalyze.length),
+      );
+      const outcomes: Array<PageOutcome | undefined> = [];
+      let nextIndex = 0,
+        emitted = 0,
+        stopped = false;
 
-      for (const i of pagesToAnalyze) {
-        if (Date.now() - startTime > timeoutMs) {
-          incomplete = true;
-          incompleteReason = `Timeout: stopped at page ${i}`;
-          break;
-        }
-        this.log(`Analyzing page ${i}/${totalPages}`);
-        const page = await pdf.getPage(i);
-        const textContent = await page.getTextContent();
-        if (textContent.items.length === 0) isScanned = true;
-        extractedText += textContent.items.map((item: any) => item.str).join(' ');
-
+      const runSlot = async (slot: number) => {
+        const canvas = (slot === 0 && this.config.canvas) || createCanvas();
         try {
-          const contentAnalysis = this.analyzePageContent(textContent, i);
-          const pageAnalysis = await this.checkPdfPageQuality(pdf, i, maxRenderScale);
-
-          if (textContent.items.length > 0) {
-            try {
-              const textSharpness = await this.analyzeTextSharpness(pdf, i, maxRenderScale);
-              let finalIsBlurry = pageAnalysis.isBlurry || textSharpness.isTextBlurry;
-              if (contentAnalysis.isCertificateDocument) {
-                finalIsBlurry = textSharpness.textSharpnessScore < 0.3;
-                this.log(`Page ${i} identified as certificate - lenient blur`);
-              } else if (contentAnalysis.isLikelyHeaderPage) {
-                finalIsBlurry = textSharpness.textSharpnessScore < 0.5;
-                this.log(`Page ${i} identified as header/logo - lenient blur`);
-              }
-
-              pageResults.push({
-                ...pageAnalysis,
-                isBlurry: finalIsBlurry,
-                confidence: Math.max(pageAnalysis.confidence, textSharpness.textSharpnessScore),
-                method: `${pageAnalysis.method} + Text Analysis${contentAnalysis.isCertificateDocument ? ' (Certificate-adjusted)' : contentAnalysis.isLikelyHeaderPage ? ' (Header-adjusted)' : ''}`,
-                metrics: { ...pageAnalysis.metrics, textSharpness, contentAnalysis },
-              });
-              this.log(`Page ${i} combined analysis done`);
-            } catch (textError) {
-              this.log(`Text analysis failed for page ${i}:`, textError);
-              pageResults.push(pageAnalysis);
+          while (!stopped && nextIndex < pagesToAnalyze.length) {
+            throwIfAborted(signal);
+            const index = nextIndex++;
+            const i = pagesToAnalyze[index];
+            if (Date.now() - startTime > timeoutMs) {
+              stopped = true;
+              incomplete = true;
+              incompleteReason = `Timeout: stopped at page ${i}`;
+              break;
             }
-          } else {
-            pageResults.push(pageAnalysis);
+            outcomes[index] = await this.analyzePage(
+              pdf,
+              i,
+              totalPages,
+              canvas,
+              renderScales,
+              progress,
+              perfOptions?.scanResolution ?? false,
+              signal,
+            );
+            // Slots finish out of order; results are handed on in page order.
+            for (let next = outcomes[emitted]; next; next = outcomes[++emitted])
+              if (next.result) addPageResult(next.result, pagesToAnalyze[emitted]);
           }
         } catch (error) {
-          this.log(`Failed to analyze page ${i}:`, error);
-          corruptedPages.push({
-            page: i,
-            error: error instanceof Error ? error.message : 'Unknown page analysis error',
-          });
+          stopped = true;
+          throw error;
+        } finally {
+          if (canvas !== this.config.canvas) releaseCanvas(canvas);
         }
-      }
+      };
+      await Promise.all(Array.from({ length: concurrency }, (_, slot) => runSlot(slot)));
+
+      outcomes.forEach((outcome, index) => {
+        if (!outcome) return;
+        extractedText += outcome.text;
+        if (outcome.scanned) isScanned = true;
+        if (outcome.security?.javascript) security.javascript = security.hasActiveContent = true;
+        for (const name of outcome.security?.attachments ?? []) {
+          security.hasAttachments = true;
+          if (!security.attachments.includes(name)) security.attachments.push(name);
+        }
+        if (outcome.error)
+          corruptedPages.push({ page: pagesToAnalyze[index], error: outcome.error });
+      });
 
       const finalIsScanned = isScanned || extractedText.length < 10;
       this.log(
@@ -518,10 +945,14 @@ export class PDFAnalyzer {
         incompleteReason,
         totalPages,
         skippedPages: skippedPages.length ? skippedPages : undefined,
+        permissions,
+        security,
       };
       this.log('Final PDF analysis result:', result);
+      progress(pagesToAnalyze[pagesToAnalyze.length - 1] ?? 0, 'complete');
       return result;
     } catch (error) {
+      if (error instanceof AnalysisAbortedError || error instanceof PDFPasswordError) throw error;
       this.log('PDF analysis failed:', error);
       throw new Error(
         `PDF analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -529,7 +960,7 @@ export class PDFAnalyzer {
     }
   }
 
-  async isGoodQuality(file: File): Promise<boolean> {
-    return (await this.analyzePDF(file)).isQualityGood;
+  async isGoodQuality(file: File, perfOptions?: PDFPerformanceOptions): Promise<boolean> {
+    return (await this.analyzePDF(file, perfOptions)).isQualityGood;
   }
 }
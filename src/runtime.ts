@@ -0,0 +1,20 @@
+import type { CanvasLike } from './types';
+
+// Environment hooks for runtimes without DOM canvas, image decoding or a script-loaded pdf.js.
+export interface RuntimeAdapters {
+  createCanvas?: (width: number, height: number) => CanvasLike;
+  decodeImage?: (blob: Blob) => Promise<ImageData>;
+  // Keyed by MIME type, e.g. 'image/heic'; multi-page formats return one ImageData per page.
+  imageDecoders?: Record<string, (blob: Blob) => Promise<ImageData | ImageData[]>>;
+  loadPdfJS?: () => Promise<any>;
+}
+
+const adapters: RuntimeAdapters = {};
+
+export function configureRuntime(overrides: RuntimeAdapters): void {
+  Object.assign(adapters, overrides);
+}
+
+export function runtimeAdapters(): Readonly<RuntimeAdapters> {
+  return adapters;
+}
@@ -0,0 +1,252 @@
+import { Filters } from './filters';
+import {
+  TENENGRAD_NOISE_FLOOR,
+  BRENNER_NOISE_FLOOR,
+  FFT_WINDOW_SIZE,
+  FFT_HIGH_FREQUENCY_CUTOFF,
+  FFT_MIN_WINDOW_VARIANCE,
+  ORIENTATION_NOISE_FLOOR,
+} from './constants';
+
+const SOBEL_X = [-1, 0, 1, -2, 0, 2, -1, 0, 1];
+const SOBEL_Y = [-1, -2, -1, 0, 0, 0, 1, 2, 1];
+
+function fft1d(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (-2 * Math.PI) / len;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let i = 0; i < n; i += len) {
+      let curRe = 1,
+        curIm = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const a = i + k;
+        const b = a + len / 2;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+}
+
+function fft2d(re: Float64Array, im: Float64Array, n: number): void {
+  const rowRe = new Float64Array(n);
+  const rowIm = new Float64Array(n);
+  for (let y = 0; y < n; y++) {
+    rowRe.set(re.subarray(y * n, (y + 1) * n));
+    rowIm.set(im.subarray(y * n, (y + 1) * n));
+    fft1d(rowRe, rowIm);
+    re.set(rowRe, y * n);
+    im.set(rowIm, y * n);
+  }
+  for (let x = 0; x < n; x++) {
+    for (let y = 0; y < n; y++) {
+      rowRe[y] = re[y * n + x];
+      rowIm[y] = im[y * n + x];
+    }
+    fft1d(rowRe, rowIm);
+    for (let y = 0; y < n; y++) {
+      re[y * n + x] = rowRe[y];
+      im[y * n + x] = rowIm[y];
+    }
+  }
+}
+
+function windowHighFrequencyRatio(
+  gray: Float32Array,
+  width: number,
+  x0: number,
+  y0: number,
+  n: number,
+): number | null {
+  const re = new Float64Array(n * n);
+  const im = new Float64Array(n * n);
+  let sum = 0,
+    sumSq = 0;
+  for (let y = 0; y < n; y++) {
+    for (let x = 0; x < n; x++) {
+      const v = gray[(y0 + y) * width + x0 + x];
+      re[y * n + x] = v;
+      sum += v;
+      sumSq += v * v;
+    }
+  }
+  const mean = sum / (n * n);
+  if (sumSq / (n * n) - mean * mean < FFT_MIN_WINDOW_VARIANCE) return null;
+
+  for (let y = 0; y < n; y++) {
+    const wy = 0.5 - 0.5 * Math.cos((2 * Math.PI * y) / (n - 1));
+    for (let x = 0; x < n; x++) {
+      const wx = 0.5 - 0.5 * Math.cos((2 * Math.PI * x) / (n - 1));
+      re[y * n + x] = (re[y * n + x] - mean) * wx * wy;
+    }
+  }
+  fft2d(re, im, n);
+
+  const half = n / 2;
+  let total = 0,
+    high = 0;
+  for (let v = 0; v < n; v++) {
+    const fy = v <= half ? v : v - n;
+    for (let u = 0; u < n; u++) {
+      if (u === 0 && v === 0) continue;
+      const fx = u <= half ? u : u - n;
+      const power = re[v * n + u] ** 2 + im[v * n + u] ** 2;
+      total += power;
+      if (Math.sqrt(fx * fx + fy * fy) / half > FFT_HIGH_FREQUENCY_CUTOFF) high += power;
+    }
+  }
+  return total > 0 ? high / total : 0;
+}
+
+export const SharpnessMetrics = {
+  laplacianTiles(
+    pixels: ImageData,
+    rows: number,
+    cols: number,
+    mask?: Uint8Array,
+  ): Array<Array<{ variance: number; stdDev: number }>> {
+    const { width, height } = pixels;
+    const gray = Filters.grayscale(pixels);
+    const lap = Filters.convolveGray(gray, width, height, [0, 1, 0, 1, -4, 1, 0, 1, 0]);
+    const grid: Array<Array<{ variance: number; stdDev: number }>> = [];
+    for (let r = 0; r < rows; r++) {
+      const y0 = Math.floor((r * height) / rows);
+      const y1 = Math.floor(((r + 1) * height) / rows);
+      const row: Array<{ variance: number; stdDev: number }> = [];
+      for (let c = 0; c < cols; c++) {
+        const x0 = Math.floor((c * width) / cols);
+        const x1 = Math.floor(((c + 1) * width) / cols);
+        let lSum = 0,
+          lSumSq = 0,
+          gSum = 0,
+          gSumSq = 0,
+          count = 0;
+        for (let y = y0; y < y1; y++) {
+          for (let x = x0; x < x1; x++) {
+            const i = y * width + x;
+            if (mask && !mask[i]) continue;
+            count++;
+            lSum += lap[i];
+            lSumSq += lap[i] * lap[i];
+            gSum += gray[i];
+            gSumSq += gray[i] * gray[i];
+          }
+        }
+        // A tile the mask leaves empty reads as flat, so it counts as having no content.
+        const n = Math.max(count, 1);
+        const lMean = lSum / n;
+        const gMean = gSum / n;
+        row.push({
+          variance: Math.max(lSumSq / n - lMean * lMean, 0),
+          stdDev: Math.sqrt(Math.max(gSumSq / n - gMean * gMean, 0)),
+        });
+      }
+      grid.push(row);
+    }
+    return grid;
+  },
+
+  tenengrad(pixels: ImageData, mask?: Uint8Array): number {
+    const { width, height } = pixels;
+    const gray = Filters.grayscale(pixels);
+    const gx = Filters.convolveGray(gray, width, height, SOBEL_X);
+    const gy = Filters.convolveGray(gray, width, height, SOBEL_Y);
+    const floor = TENENGRAD_NOISE_FLOOR * TENENGRAD_NOISE_FLOOR;
+    let sum = 0,
+      count = 0;
+    for (let i = 0; i < gx.length; i++) {
+      if (mask && !mask[i]) continue;
+      const energy = gx[i] * gx[i] + gy[i] * gy[i];
+      if (energy <= floor) continue;
+      sum += energy;
+      count++;
+    }
+    return count > 0 ? sum / count : 0;
+  },
+
+  brenner(pixels: ImageData, mask?: Uint8Array): number {
+    const { width, height } = pixels;
+    const gray = Filters.grayscale(pixels);
+    const floor = BRENNER_NOISE_FLOOR * BRENNER_NOISE_FLOOR;
+    let sum = 0,
+      count = 0;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = y * width + x;
+        if (mask && !mask[i]) continue;
+        const dx = x + 2 < width ? gray[i + 2] - gray[i] : 0;
+        const dy = y + 2 < height ? gray[i + 2 * width] - gray[i] : 0;
+        const energy = Math.max(dx * dx, dy * dy);
+        if (energy <= floor) continue;
+        sum += energy;
+        count++;
+      }
+    }
+    return count > 0 ? sum / count : 0;
+  },
+
+  gradientOrientation(
+    pixels: ImageData,
+    mask?: Uint8Array,
+  ): { anisotropy: number; dominantAngle: number } {
+    const { width, height } = pixels;
+    const gray = Filters.grayscale(pixels);
+    const gx = Filters.convolveGray(gray, width, height, SOBEL_X);
+    const gy = Filters.convolveGray(gray, width, height, SOBEL_Y);
+    const floor = ORIENTATION_NOISE_FLOOR * ORIENTATION_NOISE_FLOOR;
+    let jxx = 0,
+      jyy = 0,
+      jxy = 0;
+    for (let i = 0; i < gx.length; i++) {
+      if (mask && !mask[i]) continue;
+      if (gx[i] * gx[i] + gy[i] * gy[i] <= floor) continue;
+      jxx += gx[i] * gx[i];
+      jyy += gy[i] * gy[i];
+      jxy += gx[i] * gy[i];
+    }
+    const trace = jxx + jyy;
+    if (trace === 0) return { anisotropy: 0, dominantAngle: 0 };
+    const anisotropy = Math.sqrt((jxx - jyy) ** 2 + 4 * jxy * jxy) / trace;
+    const angle = (0.5 * Math.atan2(2 * jxy, jxx - jyy) * 180) / Math.PI;
+    return { anisotropy, dominantAngle: (angle + 180) % 180 };
+  },
+
+  fftHighFrequencyRatio(pixels: ImageData): number {
+    const { width, height } = pixels;
+    let n = FFT_WINDOW_SIZE;
+    while (n > 8 && (n > width || n > height)) n >>= 1;
+    if (n > width || n > height) return 0;
+
+    const gray = Filters.grayscale(pixels);
+    const cols = Math.min(3, Math.floor(width / n));
+    const rows = Math.min(3, Math.floor(height / n));
+    const ratios: number[] = [];
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) {
+        const x0 = Math.floor(((c + 0.5) * width) / cols - n / 2);
+        const y0 = Math.floor(((r + 0.5) * height) / rows - n / 2);
+        const ratio = windowHighFrequencyRatio(gray, width, x0, y0, n);
+        if (ratio !== null) ratios.push(ratio);
+      }
+    }
+    return ratios.length ? ratios.reduce((s, v) => s + v, 0) / ratios.length : 0;
+  },
+};
@@ -31,12 +31,13 @@ const mockCanvas = {
   height: 100,
 };
 
-Object.defineProperty(document, 'createElement', {
-  value: jest.fn((tagName: string) => {
-    if (tagName === 'canvas') return mockCanvas;
-    return { src: '', onload: null, onerror: null };
-  }),
-});
+if (typeof document !== 'undefined')
+  Object.defineProperty(document, 'createElement', {
+    value: jest.fn((tagName: string) => {
+      if (tagName === 'canvas') return mockCanvas;
+      return { src: '', onload: null, onerror: null };
+    }),
+  });
 
 global.Image = class {
   onload: (() => void) | null = null;
@@ -46,6 +47,18 @@ global.Image = class {
   height = 100;
 } as any;
 
+// jsdom's Blob has no arrayBuffer(); read through jsdom's own FileReader before it is mocked below.
+const JsdomFileReader = global.FileReader;
+if (typeof Blob !== 'undefined' && !Blob.prototype.arrayBuffer)
+  Blob.prototype.arrayBuffer = function (this: Blob) {
+    return new Promise<ArrayBuffer>((resolve, reject) => {
+      const reader = new JsdomFileReader();
+      reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer).slice().buffer);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsArrayBuffer(this);
+    });
+  };
+
 global.FileReader = class {
   onload: ((event: any) => void) | null = null;
   onerror: (() => void) | null = null;
@@ -1,44 +1,128 @@
 import type { ValidationMode, StrictnessLevel } from './mode-config';
 import type { IssueCode } from './issue-catalog';
+import type { WorkerClient } from './worker-client';
 
 export type { ValidationMode, StrictnessLevel } from './mode-config';
 export type { IssueCode, IssueDefinition, IssueSeverity } from './issue-catalog';
 
+export type BlurDetectionMethod = 'edge' | 'laplacian' | 'both' | 'tenengrad' | 'brenner' | 'fft';
+
+export type SharpnessMetricName = 'tenengrad' | 'brenner' | 'fft';
+
 export interface BlurDetectionConfig {
   edgeWidthThreshold?: number;
   laplacianThreshold?: number;
-  method?: 'edge' | 'laplacian' | 'both';
+  method?: BlurDetectionMethod;
+  laplacianBackend?: 'js' | 'opencv';
+  tenengradThreshold?: number;
+  brennerThreshold?: number;
+  fftThreshold?: number;
+  /** Extra metrics computed alongside `method` and fused into the blur check score. */
+  metrics?: SharpnessMetricName[];
+  tileGrid?: { rows: number; cols: number };
+  partialBlurRatio?: number;
+  roi?: RegionOfInterest;
+  workingSize?: number;
+  /** Largest width × height decoded from a file; bigger headers are rejected before decoding. */
+  maxPixels?: number;
   openCvUrl?: string;
-  canvas?: HTMLCanvasElement;
+  openCvModule?: any;
+  openCvIntegrity?: string;
+  openCvTimeoutMs?: number;
+  pdfjsLib?: any;
+  pdfjsUrl?: string;
+  pdfjsWorkerUrl?: string;
+  pdfjsIntegrity?: string;
+  nonce?: string;
+  canvas?: CanvasLike;
+  worker?: false | string | URL | WorkerClient;
+  workerTimeoutMs?: number;
   debug?: boolean;
 }
 
-export type ImageInput = HTMLImageElement | HTMLCanvasElement | File | ImageData;
+export interface RegionRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  normalized?: boolean;
+}
+
+/** Pixel or normalized (0-1) rectangle, or an alpha mask where non-zero alpha marks the region. */
+export type RegionOfInterest = RegionRect | ImageData;
+
+export type CanvasLike = HTMLCanvasElement | OffscreenCanvas;
+
+export type ImageInput =
+  | HTMLImageElement
+  | HTMLCanvasElement
+  | OffscreenCanvas
+  | ImageBitmap
+  | VideoFrame
+  | File
+  | Blob
+  | ImageData;
+
+export interface EdgeAxisAnalysis {
+  numEdges: number;
+  avgEdgeWidth: number;
+  avgEdgeWidthPerc: number;
+  edgeStrength: number;
+}
+
+/** Top-level counts and widths come from the horizontal gradient scanned along rows. */
+export interface EdgeAnalysis {
+  width: number;
+  height: number;
+  numEdges: number;
+  avgEdgeWidth: number;
+  avgEdgeWidthPerc: number;
+  horizontal?: EdgeAxisAnalysis;
+  vertical?: EdgeAxisAnalysis;
+  /** Both axes: edge counts and strengths summed, widths taken from the wider axis. */
+  combined?: EdgeAxisAnalysis;
+}
 
 export interface BlurAnalysisResult {
   isBlurry: boolean;
   confidence: number;
   metrics: {
-    edgeAnalysis?: {
-      width: number;
-      height: number;
-      numEdges: number;
-      avgEdgeWidth: number;
-      avgEdgeWidthPerc: number;
-    };
+    edgeAnalysis?: EdgeAnalysis;
     laplacianVariance?: number;
+    tenengrad?: number;
+    brenner?: number;
+    fftHighFrequencyRatio?: number;
+    normalization?: {
+      workingSize: number;
+      scale: number;
+      originalWidth: number;
+      originalHeight: number;
+      workingWidth: number;
+      workingHeight: number;
+      /** Working-size `avgEdgeWidth` divided by `scale`; extrapolated, not measured. */
+      estimatedRawAvgEdgeWidth?: number;
+    };
+    blurClassification?: {
+      type: 'motion' | 'defocus';
+      anisotropy: number;
+      motionAngle?: number;
+    };
+    sharpnessMap?: {
+      rows: number;
+      cols: number;
+      tiles: Array<Array<number | null>>;
+      contentTiles: number;
+      blurryTiles: number;
+      blurryRatio: number;
+      isPartiallyBlurry: boolean;
+    };
     textSharpness?: { textSharpnessScore: number; isTextBlurry: boolean; textMetrics: any };
     scaleResults?: Array<{
       scale: number;
       isBlurry: boolean;
       confidence: number;
-      edgeAnalysis?: {
-        width: number;
-        height: number;
-        numEdges: number;
-        avgEdgeWidth: number;
-        avgEdgeWidthPerc: number;
-      };
+      edgeAnalysis?: EdgeAnalysis;
+      effectiveDpi?: number;
     }>;
     contentAnalysis?: {
       isLikelyHeaderPage: boolean;
@@ -53,6 +137,16 @@ export interface BlurAnalysisResult {
       aspectRatio: number;
       orientation: 'portrait' | 'landscape' | 'square';
       rotation: number;
+      pageSize?: {
+        widthPoints: number;
+        heightPoints: number;
+        widthInches: number;
+        heightInches: number;
+      };
+      renderScale?: number;
+      effectiveDpi?: number;
+      embeddedImages?: EmbeddedImageInfo[];
+      scanDpi?: number;
       brightness: number;
       contrast: number;
       minLuminance: number;
@@ -72,6 +166,19 @@ export interface BlurAnalysisResult {
     };
   };
   method: string;
+  /** Multi-page images only: one result per page; the top level reports the first blurry page. */
+  pages?: Array<BlurAnalysisResult & { page: number }>;
+}
+
+export interface EmbeddedImageInfo {
+  width: number;
+  height: number;
+  displayWidthPoints: number;
+  displayHeightPoints: number;
+  dpiX: number;
+  dpiY: number;
+  dpi: number;
+  pageCoverage: number;
 }
 
 export interface PDFAnalysisResult {
@@ -85,11 +192,37 @@ export interface PDFAnalysisResult {
   incompleteReason?: string;
   totalPages?: number;
   skippedPages?: number[];
+  permissions?: PDFPermissions;
+  security?: PDFSecurityScan;
+}
+
+export interface PDFPermissions {
+  restricted: boolean;
+  print: boolean;
+  printHighQuality: boolean;
+  copy: boolean;
+  modify: boolean;
+  annotate: boolean;
+  fillForms: boolean;
+  assemble: boolean;
+}
+
+export interface PDFSecurityScan {
+  hasActiveContent: boolean;
+  javascript: boolean;
+  launchActions: boolean;
+  xfa: boolean;
+  hasAttachments: boolean;
+  attachments: string[];
 }
 
 export type SupportedFileType = 'image' | 'pdf';
 
-export interface FileAnalysisOptions extends BlurDetectionConfig {
+export interface AbortOptions {
+  signal?: AbortSignal;
+}
+
+export interface FileAnalysisOptions extends BlurDetectionConfig, AbortOptions {
   fileType?: SupportedFileType;
 }
 
@@ -102,6 +235,9 @@ export type QualityCheckName =
   | 'format'
   | 'fileSize'
   | 'pageResolution'
+  | 'scanResolution'
+  | 'encryption'
+  | 'pdfSecurity'
   | 'scanned'
   | 'sharpness'
   | 'textDensity'
@@ -119,12 +255,45 @@ export interface QualityCheckResult {
   details?: Record<string, unknown>;
 }
 
+export interface ImageMetadata {
+  orientation?: number;
+  make?: string;
+  model?: string;
+  captureTime?: string;
+  exposureTime?: number;
+  iso?: number;
+  hasGps: boolean;
+  hasSerialNumber: boolean;
+  hasExif: boolean;
+  hasXmp: boolean;
+}
+
+export type MetadataCategory = 'gps' | 'deviceIdentifiers' | 'exif' | 'xmp' | 'iptc' | 'comments';
+
+export interface SanitizeOptions {
+  stripGps?: boolean;
+  /** Keeps only the orientation; this also drops the vendor maker note, which is otherwise kept. */
+  stripAll?: boolean;
+}
+
+export interface SanitizeResult {
+  file: File;
+  removed: MetadataCategory[];
+  bytesRemoved: number;
+}
+
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
 export interface FileValidationOptions {
   maxSizeBytes?: number;
   maxSizeMB?: number;
   allowedTypes?: string[];
   allowedExtensions?: string[];
   validateMagicBytes?: boolean;
+  validateStructure?: boolean;
 }
 
 export interface ImageValidationOptions extends BlurDetectionConfig, FileValidationOptions {
@@ -136,11 +305,32 @@ export interface ImageValidationOptions extends BlurDetectionConfig, FileValidat
   checks?: QualityCheckName[];
 }
 
-export interface PDFPerformanceOptions {
+export type PDFProgressStage =
+  | 'loading'
+  | 'rendering'
+  | 'text-analysis'
+  | 'page-complete'
+  | 'complete';
+
+export interface PDFProgressEvent {
+  page: number;
+  totalPages: number;
+  stage: PDFProgressStage;
+  elapsedMs: number;
+}
+
+export interface PDFPerformanceOptions extends AbortOptions {
   maxPages?: number;
   samplePages?: 'first' | 'all' | 'smart' | number[];
   maxRenderScale?: number;
+  renderScales?: number[];
+  renderDpi?: number | number[];
+  password?: string;
   timeoutMs?: number;
+  concurrency?: number;
+  onProgress?: (event: PDFProgressEvent) => void;
+  /** Measure the DPI of embedded scans; costs a second parse of every page. */
+  scanResolution?: boolean;
 }
 
 export interface UploadValidationOptions extends ImageValidationOptions, PDFPerformanceOptions {
@@ -149,6 +339,9 @@ export interface UploadValidationOptions extends ImageValidationOptions, PDFPerf
   preset?: 'general' | 'profile-photo' | 'document-scan' | 'receipt' | 'id-card';
   strictness?: StrictnessLevel;
   expectedOrientation?: 'portrait' | 'landscape' | 'square';
+  minScanDpi?: number;
+  blockPdfActiveContent?: boolean;
+  blockPdfAttachments?: boolean;
 }
 
 export interface QualityValidationResult {
@@ -167,6 +360,7 @@ export interface QualityValidationResult {
   height?: number;
   blurAnalysis?: BlurAnalysisResult;
   pdfAnalysis?: PDFAnalysisResult;
+  metadata?: ImageMetadata;
   debugMetrics?: Record<string, unknown>;
 }
 
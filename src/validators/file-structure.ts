@@ -0,0 +1,179 @@
+export interface FileStructureReport {
+  complete: boolean;
+  truncated: boolean;
+  reason?: string;
+}
+
+// PDF readers look for the trailer in the last 1024 bytes.
+const PDF_TAIL_BYTES = 1024;
+// Images are walked one window at a time so a large upload is never held in memory whole.
+const STRUCTURE_WINDOW_BYTES = 64 * 1024;
+
+const COMPLETE: FileStructureReport = { complete: true, truncated: false };
+
+function truncated(reason: string): FileStructureReport {
+  return { complete: false, truncated: true, reason };
+}
+
+function malformed(reason: string): FileStructureReport {
+  return { complete: false, truncated: false, reason };
+}
+
+class BlobWindow {
+  private start = 0;
+  private bytes = new Uint8Array(0);
+
+  constructor(private readonly blob: Blob) {}
+
+  get size(): number {
+    return this.blob.size;
+  }
+
+  // `length` bytes from `offset`, fewer at the end of the blob.
+  async read(offset: number, length: number): Promise<Uint8Array> {
+    const end = Math.min(offset + length, this.blob.size);
+    if (offset < this.start || end > this.start + this.bytes.length) {
+      this.start = offset;
+      this.bytes = new Uint8Array(
+        await this.blob.slice(offset, Math.max(end, offset + STRUCTURE_WINDOW_BYTES)).arrayBuffer(),
+      );
+    }
+    return this.bytes.subarray(offset - this.start, end - this.start);
+  }
+
+  async byte(offset: number): Promise<number | undefined> {
+    return offset < this.blob.size ? (await this.read(offset, 1))[0] : undefined;
+  }
+
+  // Offset of the next `value` at or after `from`, or the blob size when there is none.
+  async indexOf(value: number, from: number): Promise<number> {
+    while (from < this.blob.size) {
+      // Scan what is already loaded from `from` before moving the window on.
+      await this.read(from, 1);
+      const loaded = this.bytes.subarray(from - this.start);
+      const index = loaded.indexOf(value);
+      if (index >= 0) return from + index;
+      if (!loaded.length) break;
+      from += loaded.length;
+    }
+    return this.blob.size;
+  }
+}
+
+async function checkJpeg(bytes: BlobWindow): Promise<FileStructureReport> {
+  let offset = 2;
+  while (offset < bytes.size) {
+    if ((await bytes.byte(offset)) !== 0xff)
+      return malformed(`Expected a JPEG marker at byte ${offset}`);
+    while ((await bytes.byte(offset)) === 0xff) offset++;
+    const marker = await bytes.byte(offset++);
+    if (marker === undefined) break;
+    if (marker === 0xd9) return COMPLETE;
+    if ((marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) continue;
+    if (offset + 2 > bytes.size) break;
+    const [high, low] = await bytes.read(offset, 2);
+    const length = (high << 8) | low;
+    if (length < 2) return malformed(`Invalid JPEG segment length at byte ${offset}`);
+    if (offset + length > bytes.size) return truncated('JPEG segment runs past the end of file');
+    offset += length;
+    if (marker !== 0xda) continue;
+    // Entropy-coded data runs to the next marker; FF00 is a stuffed byte and FFD0-FFD7 are restarts.
+    for (;;) {
+      offset = await bytes.indexOf(0xff, offset);
+      const next = await bytes.byte(offset + 1);
+      if (next === undefined || (next !== 0x00 && (next < 0xd0 || next > 0xd7))) break;
+      offset++;
+    }
+  }
+  return truncated('JPEG has no end-of-image marker');
+}
+
+async function checkPng(bytes: BlobWindow): Promise<FileStructureReport> {
+  let offset = 8;
+  while (offset + 8 <= bytes.size) {
+    const header = await bytes.read(offset, 8);
+    const length = new DataView(header.buffer, header.byteOffset, 8).getUint32(0);
+    const type = String.fromCharCode(...header.subarray(4, 8));
+    if (offset === 8 && type !== 'IHDR') return malformed('PNG does not start with an IHDR chunk');
+    const end = offset + 12 + length;
+    if (end > bytes.size) return truncated(`PNG ${type} chunk runs past the end of file`);
+    if (type === 'IEND') return COMPLETE;
+    offset = end;
+  }
+  return truncated('PNG has no IEND chunk');
+}
+
+// Walks the blocks to the trailer; encoders often pad the file after it.
+async function checkGif(bytes: BlobWindow): Promise<FileStructureReport> {
+  const colorTable = (flags: number) => (flags & 0x80 ? 3 << ((flags & 0x07) + 1) : 0);
+  const skipSubBlocks = async (offset: number) => {
+    for (let size = await bytes.byte(offset); size; size = await bytes.byte(offset))
+      offset += size + 1;
+    return offset + 1;
+  };
+  if (bytes.size < 13) return truncated('GIF header is incomplete');
+  let offset = 13 + colorTable((await bytes.read(0, 13))[10]);
+  while (offset < bytes.size) {
+    const [block] = await bytes.read(offset, 1);
+    if (block === 0x3b) return COMPLETE;
+    if (block === 0x21) offset = await skipSubBlocks(offset + 2);
+    else if (block === 0x2c) {
+      if (offset + 10 > bytes.size) break;
+      // Image descriptor, local color table, then the LZW code size byte before the data.
+      const descriptor = await bytes.read(offset, 10);
+      offset = await skipSubBlocks(offset + 10 + colorTable(descriptor[9]) + 1);
+    } else return malformed(`Unexpected GIF block 0x${block.toString(16)} at byte ${offset}`);
+  }
+  return truncated('GIF has no trailer byte');
+}
+
+async function checkWebp(bytes: BlobWindow): Promise<FileStructureReport> {
+  if (bytes.size < 12) return truncated('WebP header is incomplete');
+  const header = await bytes.read(0, 12);
+  const riffSize = new DataView(header.buffer, header.byteOffset, 12).getUint32(4, true);
+  return riffSize + 8 > bytes.size
+    ? truncated(`WebP is ${bytes.size} bytes but its header declares ${riffSize + 8}`)
+    : COMPLETE;
+}
+
+async function checkBmp(bytes: BlobWindow): Promise<FileStructureReport> {
+  if (bytes.size < 14) return truncated('BMP header is incomplete');
+  const header = await bytes.read(0, 14);
+  const view = new DataView(header.buffer, header.byteOffset, 14);
+  const declaredSize = view.getUint32(2, true);
+  const pixelOffset = view.getUint32(10, true);
+  // Some encoders leave the size field at zero, so only a non-zero value is trusted.
+  if (declaredSize !== 0 && declaredSize > bytes.size)
+    return truncated(`BMP is ${bytes.size} bytes but its header declares ${declaredSize}`);
+  return pixelOffset >= bytes.size ? truncated('BMP has no pixel data') : COMPLETE;
+}
+
+function checkPdfTail(tail: string): FileStructureReport {
+  if (!tail.includes('%%EOF')) return truncated('PDF has no %%EOF marker');
+  if (!tail.includes('startxref')) return truncated('PDF has no startxref pointer');
+  return COMPLETE;
+}
+
+const IMAGE_STRUCTURE_CHECKS: Record<string, (bytes: BlobWindow) => Promise<FileStructureReport>> =
+  {
+    'image/jpeg': checkJpeg,
+    'image/png': checkPng,
+    'image/gif': checkGif,
+    'image/webp': checkWebp,
+    'image/bmp': checkBmp,
+  };
+
+export async function inspectFileStructure(
+  file: Blob,
+  type: string,
+): Promise<FileStructureReport | null> {
+  if (type === 'application/pdf') {
+    const tail = new Uint8Array(
+      await file.slice(Math.max(0, file.size - PDF_TAIL_BYTES), file.size).arrayBuffer(),
+    );
+    return checkPdfTail(String.fromCharCode(...tail));
+  }
+  const check = IMAGE_STRUCTURE_CHECKS[type];
+  if (!check) return null;
+  return check(new BlobWindow(file));
+}
@@ -1,6 +1,12 @@
-import { FileValidationOptions, QualityCheckResult, QualityStatus } from '../types';
+import {
+  FileValidationOptions,
+  ImageDimensions,
+  QualityCheckResult,
+  QualityStatus,
+} from '../types';
 import type { IssueCode } from '../issue-catalog';
 import { clamp } from '../utils';
+import { inspectFileStructure } from './file-structure';
 
 const DEFAULT_ALLOWED_TYPES = [
   'image/jpeg',
@@ -8,35 +14,240 @@ const DEFAULT_ALLOWED_TYPES = [
   'image/webp',
   'image/gif',
   'image/bmp',
+  'image/heic',
+  'image/heif',
+  'image/avif',
+  'image/tiff',
   'application/pdf',
 ];
-const DEFAULT_ALLOWED_EXTENSIONS = ['jpg', 'jpeg', 'png', 'webp', 'gif', 'bmp', 'pdf'];
+const DEFAULT_ALLOWED_EXTENSIONS = [
+  'jpg',
+  'jpeg',
+  'png',
+  'webp',
+  'gif',
+  'bmp',
+  'heic',
+  'heif',
+  'avif',
+  'tif',
+  'tiff',
+  'pdf',
+];
+
+// ISO-BMFF files (HEIC, HEIF, AVIF) start with a box size, then `ftyp` and the major brand.
+const FTYP = [0x66, 0x74, 0x79, 0x70];
 
-const SIGNATURES: Array<{ type: string; extensions: string[]; bytes: number[] }> = [
+const SIGNATURES: Array<{
+  type: string;
+  extensions: string[];
+  bytes: number[];
+  offset?: number;
+  brands?: string[];
+}> = [
   { type: 'image/jpeg', extensions: ['jpg', 'jpeg'], bytes: [0xff, 0xd8, 0xff] },
   { type: 'image/png', extensions: ['png'], bytes: [0x89, 0x50, 0x4e, 0x47] },
   { type: 'image/gif', extensions: ['gif'], bytes: [0x47, 0x49, 0x46] },
   { type: 'application/pdf', extensions: ['pdf'], bytes: [0x25, 0x50, 0x44, 0x46] },
   { type: 'image/bmp', extensions: ['bmp'], bytes: [0x42, 0x4d] },
   { type: 'image/webp', extensions: ['webp'], bytes: [0x52, 0x49, 0x46, 0x46] },
+  { type: 'image/tiff', extensions: ['tif', 'tiff'], bytes: [0x49, 0x49, 0x2a, 0x00] },
+  { type: 'image/tiff', extensions: ['tif', 'tiff'], bytes: [0x4d, 0x4d, 0x00, 0x2a] },
+  {
+    type: 'image/heic',
+    extensions: ['heic'],
+    bytes: FTYP,
+    offset: 4,
+    brands: ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis'],
+  },
+  { type: 'image/heif', extensions: ['heif'], bytes: FTYP, offset: 4, brands: ['mif1', 'msf1'] },
+  { type: 'image/avif', extensions: ['avif'], bytes: FTYP, offset: 4, brands: ['avif', 'avis'] },
 ];
 
 export function extensionFor(file: File): string {
   return file.name.split('.').pop()?.toLowerCase() || '';
 }
 
-async function detectSignature(file: File): Promise<{ type: string; extension: string } | null> {
+export async function detectSignature(
+  file: Blob,
+): Promise<{ type: string; extension: string } | null> {
   const header = new Uint8Array(await file.slice(0, 12).arrayBuffer());
   for (const s of SIGNATURES) {
-    if (!s.bytes.every((byte, index) => header[index] === byte)) continue;
+    const offset = s.offset ?? 0;
+    if (!s.bytes.every((byte, index) => header[offset + index] === byte)) continue;
     if (s.type === 'image/webp') {
       if (String.fromCharCode(...header.slice(8, 12)) !== 'WEBP') continue;
     }
+    if (s.brands && !s.brands.includes(String.fromCharCode(...header.slice(8, 12)))) continue;
     return { type: s.type, extension: s.extensions[0] };
   }
   return null;
 }
 
+// Enough for every fixed-position header below; JPEG frames are found by walking segments.
+const DIMENSION_HEADER_BYTES = 32;
+// Item properties sit in the `meta` box, which is small; anything larger is not read.
+const HEIF_META_MAX_BYTES = 1024 * 1024;
+
+async function readBytes(file: Blob, start: number, end: number): Promise<Uint8Array> {
+  return new Uint8Array(await file.slice(start, end).arrayBuffer());
+}
+
+async function readJpegDimensions(file: Blob): Promise<ImageDimensions | null> {
+  let offset = 2;
+  while (offset + 9 <= file.size) {
+    const segment = await readBytes(file, offset, offset + 9);
+    if (segment[0] !== 0xff) return null;
+    const marker = segment[1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC), carry the frame size.
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker))
+      return { width: (segment[7] << 8) | segment[8], height: (segment[5] << 8) | segment[6] };
+    if (marker === 0xda || marker === 0xd9) return null;
+    if ((marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+      offset += 2;
+      continue;
+    }
+    offset += 2 + ((segment[2] << 8) | segment[3]);
+  }
+  return null;
+}
+
+function readWebpDimensions(bytes: Uint8Array, view: DataView): ImageDimensions | null {
+  const chunk = String.fromCharCode(...bytes.subarray(12, 16));
+  if (chunk === 'VP8 ')
+    return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+  if (chunk === 'VP8L') {
+    const [b0, b1, b2, b3] = bytes.subarray(21, 25);
+    return {
+      width: 1 + (((b1 & 0x3f) << 8) | b0),
+      height: 1 + (((b3 & 0x0f) << 10) | (b2 << 2) | ((b1 & 0xc0) >> 6)),
+    };
+  }
+  if (chunk === 'VP8X') {
+    const uint24 = (at: number) => bytes[at] | (bytes[at + 1] << 8) | (bytes[at + 2] << 16);
+    return { width: 1 + uint24(24), height: 1 + uint24(27) };
+  }
+  return null;
+}
+
+// ImageWidth (0x100) and ImageLength (0x101) from the first IFD, i.e. the first page.
+async function readTiffDimensions(file: Blob): Promise<ImageDimensions | null> {
+  const header = await readBytes(file, 0, 8);
+  const little = header[0] === 0x49;
+  const ifd = new DataView(header.buffer, header.byteOffset).getUint32(4, little);
+  const count = await readBytes(file, ifd, ifd + 2);
+  if (count.length < 2) return null;
+  const entries = await readBytes(
+    file,
+    ifd + 2,
+    ifd + 2 + 12 * new DataView(count.buffer, count.byteOffset).getUint16(0, little),
+  );
+  const view = new DataView(entries.buffer, entries.byteOffset, entries.byteLength);
+  let width: number | undefined, height: number | undefined;
+  for (let at = 0; at + 12 <= entries.length; at += 12) {
+    const tag = view.getUint16(at, little);
+    const type = view.getUint16(at + 2, little);
+    if ((tag !== 0x100 && tag !== 0x101) || (type !== 3 && type !== 4)) continue;
+    const value = type === 3 ? view.getUint16(at + 8, little) : view.getUint32(at + 8, little);
+    if (tag === 0x100) width = value;
+    else height = value;
+  }
+  return width && height ? { width, height } : null;
+}
+
+interface IsoBox {
+  type: string;
+  start: number;
+  dataStart: number;
+  end: number;
+}
+
+// A 32-bit size and a type; size 1 means a 64-bit size follows, size 0 runs to `limit`.
+function isoBoxAt(bytes: Uint8Array, at: number, limit: number, base = 0): IsoBox | null {
+  if (at + 8 > bytes.length) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let size = view.getUint32(at),
+    header = 8;
+  if (size === 1) {
+    if (at + 16 > bytes.length) return null;
+    size = view.getUint32(at + 8) * 2 ** 32 + view.getUint32(at + 12);
+    header = 16;
+  } else if (size === 0) size = limit - base - at;
+  if (size < header) return null;
+  const type = String.fromCharCode(...bytes.subarray(at + 4, at + 8));
+  return { type, start: base + at, dataStart: base + at + header, end: base + at + size };
+}
+
+function isoChildren(bytes: Uint8Array, start: number, end: number): IsoBox[] {
+  const boxes: IsoBox[] = [];
+  for (let box = isoBoxAt(bytes, start, end); box && box.end <= end; ) {
+    boxes.push(box);
+    box = isoBoxAt(bytes, box.end, end);
+  }
+  return boxes;
+}
+
+// The largest image spatial extent (`ispe`) in meta/iprp/ipco. Thumbnails and grid tiles are
+// smaller than the primary image or its grid, so the largest one bounds the decoded size.
+async function readHeifDimensions(file: Blob): Promise<ImageDimensions | null> {
+  let meta: IsoBox | null = null;
+  for (let offset = 0; offset + 8 <= file.size && !meta; ) {
+    const box = isoBoxAt(await readBytes(file, offset, offset + 16), 0, file.size, offset);
+    if (!box) return null;
+    if (box.type === 'meta') meta = box;
+    offset = box.end;
+  }
+  if (!meta || meta.end - meta.start > HEIF_META_MAX_BYTES) return null;
+  const bytes = await readBytes(file, meta.start, meta.end);
+  // `meta` is a full box: version and flags precede its children.
+  const iprp = isoChildren(bytes, meta.dataStart - meta.start + 4, bytes.length).find(
+    (b) => b.type === 'iprp',
+  );
+  const ipco = iprp && isoChildren(bytes, iprp.dataStart, iprp.end).find((b) => b.type === 'ipco');
+  if (!ipco) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let largest: ImageDimensions | null = null;
+  for (const box of isoChildren(bytes, ipco.dataStart, ipco.end)) {
+    if (box.type !== 'ispe' || box.dataStart + 12 > box.end) continue;
+    const width = view.getUint32(box.dataStart + 4);
+    const height = view.getUint32(box.dataStart + 8);
+    if (!largest || width * height > largest.width * largest.height) largest = { width, height };
+  }
+  return largest;
+}
+
+// Dimensions as stored in the file, before any EXIF orientation is applied.
+export async function readImageDimensions(file: Blob): Promise<ImageDimensions | null> {
+  const signature = await detectSignature(file);
+  if (!signature) return null;
+  if (signature.type === 'image/jpeg') return readJpegDimensions(file);
+  if (signature.type === 'image/tiff') return readTiffDimensions(file);
+  if (['image/heic', 'image/heif', 'image/avif'].includes(signature.type))
+    return readHeifDimensions(file);
+  const bytes = await readBytes(file, 0, DIMENSION_HEADER_BYTES);
+  if (bytes.length < DIMENSION_HEADER_BYTES) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  switch (signature.type) {
+    case 'image/png':
+      return { width: view.getUint32(16), height: view.getUint32(20) };
+    case 'image/gif':
+      return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+    case 'image/bmp':
+      // BITMAPCOREHEADER (12 bytes) stores 16-bit sizes; later headers use signed 32-bit ones.
+      return view.getUint32(14, true) === 12
+        ? { width: view.getUint16(18, true), height: view.getUint16(20, true) }
+        : { width: Math.abs(view.getInt32(18, true)), height: Math.abs(view.getInt32(22, true)) };
+    case 'image/webp':
+      return readWebpDimensions(bytes, view);
+    default:
+      return null;
+  }
+}
+
 function statusFor(ok: boolean, scoreValue: number): QualityStatus {
   if (ok) return 'pass';
   return scoreValue >= 60 ? 'warning' : 'fail';
@@ -63,7 +274,11 @@ export async function validateFile(
   if (file.size <= 0) issues.push('invalid_file');
   if (file.size > maxSizeBytes) issues.push('too_large');
 
-  const typeOk = allowedTypes.length === 0 || allowedTypes.includes(file.type);
+  // Browsers often leave `type` empty for HEIC and TIFF; the magic bytes decide in that case.
+  const typeOk =
+    allowedTypes.length === 0 ||
+    allowedTypes.includes(file.type) ||
+    (!file.type && (options.validateMagicBytes ?? true));
   const extOk = allowedExtensions.length === 0 || allowedExtensions.includes(ext);
   if (!typeOk || !extOk) issues.push('unsupported_format');
 
@@ -78,6 +293,13 @@ export async function validateFile(
     ) {
       issues.push('unsupported_format');
     }
+    if (signature?.type.startsWith('image/')) extra.dimensions = await readImageDimensions(file);
+    if (signature && (options.validateStructure ?? true)) {
+      const structure = await inspectFileStructure(file, signature.type);
+      extra.structure = structure;
+      if (structure?.truncated) issues.push('truncated_file');
+      else if (structure && !structure.complete) issues.push('invalid_file');
+    }
   }
 
   const ok = issues.length === 0;
@@ -1,5 +1,13 @@
 import { BlurDetector } from '../blur-detector';
-import { getImageDataFromInput } from '../image-utils';
+import {
+  cropImageData,
+  decodeImagePages,
+  getImageDataFromInput,
+  resolveRegion,
+} from '../image-utils';
+import type { ResolvedRegion } from '../image-utils';
+import { readImageMetadata } from '../image-metadata';
+import { abortCheckpoint, throwIfAborted } from '../errors';
 import { resolveMode, presetToMode } from '../mode-config';
 import { recommendationsFor, summaryFor } from '../issue-catalog';
 import type { IssueCode } from '../issue-catalog';
@@ -20,16 +28,20 @@ import {
   BLANK_NON_WHITE_RATIO_MAX,
   BLANK_CONTRAST_MAX,
   BLANK_CONTENT_CONTRAST_MAX,
+  DEFAULT_MAX_PIXELS,
 } from '../constants';
 import type {
   BlurAnalysisResult,
+  ImageDimensions,
   ImageInput,
+  ImageMetadata,
+  PDFPageValidationResult,
   QualityCheckName,
   QualityCheckResult,
   QualityValidationResult,
   UploadValidationOptions,
 } from '../types';
-import { validateFile } from './file-validator';
+import { detectSignature, readImageDimensions, validateFile } from './file-validator';
 
 const GLARE_CONTRAST_THRESHOLD = 80;
 const ALL_IMAGE_CHECKS: QualityCheckName[] = [
@@ -41,14 +53,18 @@ const ALL_IMAGE_CHECKS: QualityCheckName[] = [
   'brightness',
   'contrast',
 ];
+const FILE_CHECKS: QualityCheckName[] = ['file', 'format', 'fileSize'];
+// Only some browsers decode these natively; elsewhere they need an `imageDecoders` entry.
+const PLUGGABLE_DECODER_TYPES = ['image/heic', 'image/heif', 'image/avif', 'image/tiff'];
 
 function applyMode(options: UploadValidationOptions) {
   const mode = options.mode ?? presetToMode(options.preset ?? 'general');
   return { ...resolveMode(mode, options.strictness ?? 'medium'), ...options };
 }
 
-function pixelMetrics(imageData: ImageData) {
+function pixelMetrics(imageData: ImageData, mask?: Uint8Array) {
   const { data } = imageData;
+  let count = 0;
   let sum = 0,
     sumSq = 0,
     minL = 255,
@@ -58,6 +74,8 @@ function pixelMetrics(imageData: ImageData) {
     cCount = 0,
     gCount = 0;
   for (let i = 0; i < data.length; i += 4) {
+    if (mask && !mask[i / 4]) continue;
+    count++;
     const lum = 0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2];
     sum += lum;
     sumSq += lum * lum;
@@ -70,7 +88,6 @@ function pixelMetrics(imageData: ImageData) {
       cCount++;
     }
   }
-  const count = data.length / 4;
   const b = sum / count;
   const v = sumSq / count - b * b;
   return {
@@ -197,22 +214,31 @@ function contrastCheck(m: ReturnType<typeof pixelMetrics>): QualityCheckResult {
 }
 
 function checkResolution(
-  imageData: ImageData,
+  { width: w, height: h }: ImageDimensions,
   minW: number,
   minH: number,
   maxW?: number,
   maxH?: number,
-) {
-  const { width: w, height: h } = imageData;
+  maxPixels = DEFAULT_MAX_PIXELS,
+): { ok: boolean; issue?: IssueCode; msg: string; details: Record<string, unknown> } {
+  if (w * h > maxPixels)
+    return {
+      ok: false,
+      issue: 'too_many_pixels',
+      msg: 'Image has too many pixels to process.',
+      details: { width: w, height: h, pixels: w * h, maxPixels },
+    };
   if (w < minW || h < minH)
     return {
       ok: false,
+      issue: 'low_resolution',
       msg: 'Image resolution is too low.',
       details: { width: w, height: h, minWidth: minW, minHeight: minH },
     };
   if ((maxW && w > maxW) || (maxH && h > maxH))
     return {
       ok: false,
+      issue: 'too_large_dimensions',
       msg: 'Image dimensions are larger than allowed.',
       details: { width: w, height: h, maxWidth: maxW, maxHeight: maxH },
     };
@@ -223,39 +249,183 @@ function checkResolution(
   };
 }
 
-function scoreBlur(
-  blur: BlurAnalysisResult,
-  threshold: number,
-  laplaceThreshold: number,
-): QualityCheckResult {
-  const ep = blur.metrics.edgeAnalysis?.avgEdgeWidthPerc;
+function scoreBlur(blur: BlurAnalysisResult, opts: UploadValidationOptions): QualityCheckResult {
+  const edge = blur.metrics.edgeAnalysis;
+  const ep = (edge?.combined ?? edge)?.avgEdgeWidthPerc;
   const lv = blur.metrics.laplacianVariance;
-  let s = blur.isBlurry ? 45 : 90;
-  if (typeof ep === 'number') s = 100 - (ep / (threshold * 2)) * 100;
-  if (typeof lv === 'number')
-    s =
-      typeof ep === 'number'
-        ? Math.max(s, (lv / (laplaceThreshold * 2)) * 100)
-        : (lv / (laplaceThreshold * 2)) * 100;
+  const tg = blur.metrics.tenengrad;
+  const br = blur.metrics.brenner;
+  const hf = blur.metrics.fftHighFrequencyRatio;
+  const scores: number[] = [];
+  if (typeof ep === 'number')
+    scores.push(100 - (ep / ((opts.edgeWidthThreshold ?? 0.3) * 2)) * 100);
+  if (typeof lv === 'number') scores.push((lv / ((opts.laplacianThreshold ?? 150) * 2)) * 100);
+  if (typeof tg === 'number') scores.push((tg / ((opts.tenengradThreshold ?? 40000) * 2)) * 100);
+  if (typeof br === 'number') scores.push((br / ((opts.brennerThreshold ?? 2500) * 2)) * 100);
+  if (typeof hf === 'number') scores.push((hf / ((opts.fftThreshold ?? 0.05) * 2)) * 100);
+  const partial = !blur.isBlurry && !!blur.metrics.sharpnessMap?.isPartiallyBlurry;
+  let s = scores.length ? Math.max(...scores) : blur.isBlurry ? 45 : 90;
   if (blur.isBlurry) s = Math.min(s, 59);
+  if (partial) s = Math.min(s, 65);
   return makeCheck(
-    !blur.isBlurry,
+    !blur.isBlurry && !partial,
     s,
-    blur.isBlurry ? 'Image appears blurry.' : 'Sharpness looks good.',
-    { confidence: blur.confidence, method: blur.method, edgeWidthPerc: ep, laplacianVariance: lv },
+    blur.isBlurry
+      ? 'Image appears blurry.'
+      : partial
+        ? 'Part of the image appears blurry.'
+        : 'Sharpness looks good.',
+    {
+      confidence: blur.confidence,
+      method: blur.method,
+      edgeWidthPerc: ep,
+      laplacianVariance: lv,
+      tenengrad: tg,
+      brenner: br,
+      fftHighFrequencyRatio: hf,
+      sharpnessMap: blur.metrics.sharpnessMap,
+    },
+  );
+}
+
+// Attaches the parsed metadata and warns when it would share the uploader's location or device.
+function withMetadata(
+  result: QualityValidationResult,
+  metadata?: ImageMetadata,
+): QualityValidationResult {
+  if (!metadata) return result;
+  if (!metadata.hasGps && !metadata.hasSerialNumber) return { ...result, metadata };
+  return {
+    ...result,
+    metadata,
+    warnings: [...result.warnings, 'metadata_privacy'],
+    recommendations: [...result.recommendations, ...recommendationsFor(['metadata_privacy'])],
+  };
+}
+
+// A failing result for input that could not be analysed at all.
+function unanalyzedResult(
+  issues: IssueCode[],
+  checks: Partial<Record<QualityCheckName, QualityCheckResult>>,
+  debugMetrics: Record<string, unknown>,
+  dims?: ImageDimensions,
+): QualityValidationResult {
+  const uniqueIssues = [...new Set(issues)];
+  return {
+    valid: false,
+    ok: false,
+    status: 'fail',
+    score: 0,
+    message: summaryFor(uniqueIssues),
+    type: 'image',
+    checks,
+    recommendations: recommendationsFor(uniqueIssues),
+    issues: uniqueIssues,
+    warnings: [],
+    width: dims?.width,
+    height: dims?.height,
+    debugMetrics,
+  };
+}
+
+// Multi-page images (TIFF) are validated page by page and reported like a PDF.
+async function validateImagePages(
+  pages: ImageData[],
+  options: UploadValidationOptions,
+  fileChecks: Partial<Record<QualityCheckName, QualityCheckResult>>,
+  fileIssues: IssueCode[],
+): Promise<QualityValidationResult> {
+  const opts = applyMode(options);
+  const pageChecks = (opts.checks ?? ALL_IMAGE_CHECKS).filter((n) => !FILE_CHECKS.includes(n));
+  const results: PDFPageValidationResult[] = [];
+  for (const [index, imageData] of pages.entries()) {
+    await abortCheckpoint(opts.signal);
+    // The header check only sees the first page, so every page is bounded before analysis.
+    const size = checkResolution(imageData, 0, 0, undefined, undefined, opts.maxPixels);
+    if (size.issue === 'too_many_pixels') {
+      results.push({
+        page: index + 1,
+        ok: false,
+        status: 'fail',
+        score: 0,
+        issues: [size.issue],
+        warnings: [],
+        message: summaryFor([size.issue]),
+        checks: { resolution: makeCheck(false, 0, size.msg, size.details) },
+        width: imageData.width,
+        height: imageData.height,
+      });
+      continue;
+    }
+    const r = await validateImageQuality(imageData, { ...options, checks: pageChecks });
+    results.push({
+      page: index + 1,
+      ok: r.ok,
+      status: r.status,
+      score: r.score,
+      issues: r.issues,
+      warnings: r.warnings,
+      message: r.message,
+      checks: r.checks,
+      width: r.width,
+      height: r.height,
+    });
+  }
+
+  const checks = { ...fileChecks };
+  for (const name of pageChecks) {
+    const perPage = results.map((p) => p.checks[name]).filter((c): c is QualityCheckResult => !!c);
+    if (!perPage.length) continue;
+    const worst = perPage.reduce((a, b) => (b.score < a.score ? b : a));
+    checks[name] = makeCheck(
+      perPage.every((c) => c.ok),
+      worst.score,
+      worst.message,
+      {
+        pageScores: results.map((p) => p.checks[name]?.score),
+      },
+    );
+  }
+  const issues = [...new Set([...fileIssues, ...results.flatMap((p) => p.issues)])];
+  const pageAvg = results.reduce((sum, p) => sum + p.score, 0) / results.length;
+  const fileScores = Object.values(fileChecks).map((c) => c?.score ?? 100);
+  const overall = score(
+    [...fileScores, pageAvg].reduce((sum, v) => sum + v, 0) / (fileScores.length + 1),
   );
+  const minS = opts.minScore ?? 70;
+  const ok = issues.length === 0 && results.every((p) => p.ok) && overall >= minS;
+
+  return {
+    valid: ok,
+    ok,
+    status: ok ? 'pass' : overall >= minS ? 'warning' : 'fail',
+    score: overall,
+    message: summaryFor(issues),
+    type: 'image',
+    checks,
+    recommendations: recommendationsFor(issues),
+    issues,
+    warnings: [],
+    pages: results,
+    width: pages[0].width,
+    height: pages[0].height,
+    debugMetrics: { mode: options.mode ?? 'general', minScore: minS, pageCount: pages.length },
+  };
 }
 
 export async function validateImageQuality(
   input: ImageInput,
   options: UploadValidationOptions = {},
+  decoded?: ImageData | ImageData[],
 ): Promise<QualityValidationResult> {
   const opts = applyMode(options);
+  const { signal } = opts;
+  throwIfAborted(signal);
   const requested = opts.checks ?? ALL_IMAGE_CHECKS;
   const checks: Partial<Record<QualityCheckName, QualityCheckResult>> = {};
   const issues: IssueCode[] = [];
 
-  if (input instanceof File && requested.some((n) => ['file', 'format', 'fileSize'].includes(n))) {
+  if (input instanceof File && requested.some((n) => FILE_CHECKS.includes(n))) {
     const fc = await validateFile(input, {
       ...opts,
       allowedTypes: opts.allowedTypes ?? [
@@ -264,8 +434,24 @@ export async function validateImageQuality(
         'image/webp',
         'image/gif',
         'image/bmp',
+        'image/heic',
+        'image/heif',
+        'image/avif',
+        'image/tiff',
+      ],
+      allowedExtensions: opts.allowedExtensions ?? [
+        'jpg',
+        'jpeg',
+        'png',
+        'webp',
+        'gif',
+        'bmp',
+        'heic',
+        'heif',
+        'avif',
+        'tif',
+        'tiff',
       ],
-      allowedExtensions: opts.allowedExtensions ?? ['jpg', 'jpeg', 'png', 'webp', 'gif', 'bmp'],
     });
     checks.file = fc;
     if (fc.details && typeof fc.details === 'object' && 'issues' in fc.details) {
@@ -290,20 +476,123 @@ export async function validateImageQuality(
     }
   }
 
-  const imageData = await getImageDataFromInput(input, opts.canvas);
-  const m = pixelMetrics(imageData);
+  const metadata = (input instanceof Blob ? await readImageMetadata(input) : null) ?? undefined;
+
+  // Header dimensions are checked before decoding so a decompression bomb never allocates pixels.
+  const header = input instanceof Blob ? await readImageDimensions(input) : null;
+  if (header) {
+    const resolutionFor = (dims: ImageDimensions) =>
+      checkResolution(
+        dims,
+        opts.minWidth ?? 600,
+        opts.minHeight ?? 600,
+        opts.roi ? undefined : opts.maxWidth,
+        opts.roi ? undefined : opts.maxHeight,
+        opts.maxPixels,
+      );
+    // Orientations 5-8 swap the stored width and height.
+    const rotated = { width: header.height, height: header.width };
+    const dims = (metadata?.orientation ?? 1) >= 5 ? rotated : header;
+    const r = resolutionFor(dims);
+    // Without an orientation tag the decoder's rotation is unknown, so size limits must fail both
+    // ways round.
+    const known = metadata?.orientation !== undefined;
+    const rejected =
+      r.issue === 'too_many_pixels' ||
+      (requested.includes('resolution') && !r.ok && (known || !resolutionFor(rotated).ok));
+    if (rejected) {
+      issues.push(r.issue ?? 'low_resolution');
+      checks.resolution = makeCheck(false, r.issue === 'too_many_pixels' ? 0 : 50, r.msg, {
+        ...r.details,
+        source: 'header',
+      });
+      const uniqueIssues = [...new Set(issues)];
+      const scored = Object.values(checks).filter(Boolean) as QualityCheckResult[];
+      const overall = score(scored.reduce((sum, c) => sum + c.score, 0) / scored.length);
+      return withMetadata(
+        {
+          valid: false,
+          ok: false,
+          status: overall >= (opts.minScore ?? 70) ? 'warning' : 'fail',
+          score: overall,
+          message: summaryFor(uniqueIssues),
+          type: 'image',
+          checks,
+          recommendations: recommendationsFor(uniqueIssues),
+          issues: uniqueIssues,
+          warnings: [],
+          width: dims.width,
+          height: dims.height,
+          debugMetrics: {
+            mode: options.mode ?? 'general',
+            minScore: opts.minScore ?? 70,
+            decoded: false,
+            headerDimensions: header,
+          },
+        },
+        metadata,
+      );
+    }
+  }
+
+  let pages = decoded === undefined ? null : [decoded].flat();
+  if (!pages && input instanceof Blob) pages = await decodeImagePages(input, opts.maxPixels);
+  if (pages && pages.length > 1)
+    return withMetadata(await validateImagePages(pages, options, checks, issues), metadata);
+  let imageData: ImageData;
+  try {
+    imageData = pages?.[0] ?? (await getImageDataFromInput(input, opts.canvas, opts.maxPixels));
+  } catch (error) {
+    const type = input instanceof Blob ? (await detectSignature(input))?.type : undefined;
+    if (!type || !PLUGGABLE_DECODER_TYPES.includes(type)) throw error;
+    const msg = `${type} could not be decoded; register an imageDecoders entry for it.`;
+    if (requested.includes('format')) checks.format = makeCheck(false, 0, msg, { type });
+    return withMetadata(
+      unanalyzedResult(
+        [...issues, 'undecodable_format'],
+        checks,
+        {
+          mode: options.mode ?? 'general',
+          decodeError: error instanceof Error ? error.message : String(error),
+        },
+        header ?? undefined,
+      ),
+      metadata,
+    );
+  }
+  await abortCheckpoint(signal);
+  let region: ResolvedRegion | undefined;
+  try {
+    region = opts.roi ? resolveRegion(opts.roi, imageData.width, imageData.height) : undefined;
+  } catch (error) {
+    return withMetadata(
+      unanalyzedResult(
+        [...issues, 'invalid_roi'],
+        checks,
+        {
+          mode: options.mode ?? 'general',
+          roi: { source: opts.roi, error: error instanceof Error ? error.message : String(error) },
+        },
+        imageData,
+      ),
+      metadata,
+    );
+  }
+  const analyzed = region ? cropImageData(imageData, region) : imageData;
+  const m = pixelMetrics(analyzed, region?.mask);
   const blank = isBlankContent(m);
   let blurAnalysis: BlurAnalysisResult | undefined;
 
   if (requested.includes('resolution')) {
     const r = checkResolution(
-      imageData,
+      analyzed,
       opts.minWidth ?? 600,
       opts.minHeight ?? 600,
       opts.maxWidth,
       opts.maxHeight,
+      opts.maxPixels,
     );
-    if (!r.ok) issues.push('low_resolution');
+    if (r.issue) issues.push(r.issue);
     checks.resolution = makeCheck(r.ok, r.ok ? 100 : 50, r.msg, r.details);
   }
 
@@ -322,14 +611,12 @@ export async function validateImageQuality(
   }
 
   if (requested.includes('blur')) {
-    blurAnalysis = await new BlurDetector(opts).analyzeImage(imageData);
-    const bc = scoreBlur(
-      blurAnalysis,
-      opts.edgeWidthThreshold ?? 0.3,
-      opts.laplacianThreshold ?? 150,
-    );
+    await abortCheckpoint(signal);
+    // The detector resolves the region itself so a mask limits blur sampling too.
+    blurAnalysis = await new BlurDetector(opts).analyzeImage(imageData, { signal });
+    const bc = scoreBlur(blurAnalysis, opts);
     checks.blur = bc;
-    if (!bc.ok && !blank) issues.push('blurry');
+    if (!bc.ok && !blank) issues.push(blurAnalysis.isBlurry ? 'blurry' : 'partial_blur');
   }
 
   const uniqueIssues = [...new Set(issues)];
@@ -339,7 +626,7 @@ export async function validateImageQuality(
   const minS = opts.minScore ?? 70;
   const ok = uniqueIssues.length === 0 && overall >= minS;
 
-  return {
+  const result: QualityValidationResult = {
     valid: ok,
     ok,
     status: ok ? 'pass' : overall >= minS ? 'warning' : 'fail',
@@ -347,7 +634,9 @@ export async function validateImageQuality(
     message: summaryFor(uniqueIssues),
     type: 'image',
     checks,
-    recommendations: recommendationsFor(uniqueIssues),
+    recommendations: recommendationsFor(uniqueIssues, {
+      blurType: blurAnalysis?.metrics.blurClassification?.type,
+    }),
     issues: uniqueIssues,
     warnings: [],
     width: imageData.width,
@@ -360,8 +649,19 @@ export async function validateImageQuality(
       minLuminance: m.minLuminance,
       maxLuminance: m.maxLuminance,
       minScore: minS,
+      workingSize: opts.workingSize,
       nonWhiteRatio: m.nonWhiteRatio,
       contentContrast: m.contentContrast,
+      roi: region
+        ? {
+            x: region.x,
+            y: region.y,
+            width: region.width,
+            height: region.height,
+            masked: !!region.mask,
+            source: opts.roi,
+          }
+        : undefined,
       blank: {
         detected: blank,
         blankNonWhiteRatioMax: BLANK_NON_WHITE_RATIO_MAX,
@@ -384,4 +684,5 @@ export async function validateImageQuality(
       },
     },
   };
+  return withMetadata(result, metadata);
 }
@@ -1,4 +1,5 @@
 import { PDFAnalyzer } from '../pdf-analyzer';
+import { AnalysisAbortedError, PDFPasswordError } from '../errors';
 import { resolveMode, presetToMode } from '../mode-config';
 import { recommendationsFor, summaryFor } from '../issue-catalog';
 import type { IssueCode } from '../issue-catalog';
@@ -6,6 +7,7 @@ import { score, statusFor, makeCheck } from '../utils';
 import type {
   BlurDetectionConfig,
   PDFAnalysisResult,
+  PDFPageValidationResult,
   QualityValidationResult,
   UploadValidationOptions,
 } from '../types';
@@ -20,6 +22,7 @@ export async function validatePDFQuality(
   file: File,
   options: UploadValidationOptions = {},
   config: BlurDetectionConfig = {},
+  onPage?: (page: PDFPageValidationResult) => void,
 ): Promise<QualityValidationResult> {
   const effectiveMode = options.mode ?? presetToMode(options.preset ?? 'document');
   const defaults = resolveMode(effectiveMode, options.strictness ?? 'medium');
@@ -65,35 +68,62 @@ export async function validatePDFQuality(
       ...opts,
       edgeWidthThreshold: opts.edgeWidthThreshold,
       method: opts.method,
-    }).analyzePDF(file, {
-      maxPages: opts.maxPages,
-      samplePages: opts.samplePages,
-      maxRenderScale: opts.maxRenderScale,
-      timeoutMs: opts.timeoutMs,
-    });
+    }).analyzePDF(
+      file,
+      {
+        maxPages: opts.maxPages,
+        samplePages: opts.samplePages,
+        maxRenderScale: opts.maxRenderScale,
+        renderScales: opts.renderScales,
+        renderDpi: opts.renderDpi,
+        timeoutMs: opts.timeoutMs,
+        concurrency: opts.concurrency,
+        signal: opts.signal,
+        password: opts.password,
+        onProgress: opts.onProgress,
+        scanResolution:
+          options.minScanDpi !== undefined || !!options.checks?.includes('scanResolution'),
+      },
+      onPage && ((result, pageNumber) => onPage(validatePage(pageNumber, result, opts))),
+    );
   } catch (error) {
+    if (error instanceof AnalysisAbortedError) throw error;
+    const code: IssueCode =
+      error instanceof PDFPasswordError ? 'password_protected_pdf' : 'corrupted_pdf';
+    const errorMessage = error instanceof Error ? error.message : 'Unknown';
     return {
       valid: false,
       ok: false,
       status: 'fail',
       score: 0,
-      message: summaryFor(['corrupted_pdf']),
+      message: summaryFor([code]),
       type: 'pdf',
       checks: {
         file: fileCheck,
         fileSize: fileSizeCheck,
-        corruptedPages: makeCheck(false, 0, 'PDF could not be read.', {
-          error: error instanceof Error ? error.message : 'Unknown',
-        }),
+        ...(error instanceof PDFPasswordError
+          ? {
+              encryption: makeCheck(false, 0, `${errorMessage}.`, {
+                reason: error.reason,
+                passwordProvided: opts.password !== undefined,
+              }),
+            }
+          : {
+              corruptedPages: makeCheck(false, 0, 'PDF could not be read.', {
+                error: errorMessage,
+              }),
+            }),
       },
-      issues: ['corrupted_pdf'],
+      issues: [code],
       warnings: [],
-      recommendations: recommendationsFor(['corrupted_pdf']),
-      debugMetrics: { error: error instanceof Error ? error.message : 'Unknown' },
+      recommendations: recommendationsFor([code]),
+      debugMetrics: { error: errorMessage },
     };
   }
 
-  const pages = (pdfAnalysis.pageResults ?? []).map((pr, i) => validatePage(i + 1, pr, opts));
+  const pages = (pdfAnalysis.pageResults ?? []).map((pr, i) =>
+    validatePage(pr.metrics.pdfPageMetrics?.pageNumber ?? i + 1, pr, opts),
+  );
   const corrupted = pdfAnalysis.corruptedPages ?? [];
   const globalIssues: IssueCode[] = [];
   const globalWarnings: IssueCode[] = [];
@@ -102,6 +132,11 @@ export async function validatePDFQuality(
   if (corrupted.length > 0) globalIssues.push('corrupted_page');
   if (pdfAnalysis.skippedPages?.length) globalIssues.push('corrupted_page');
   if (pdfAnalysis.isScanned) globalWarnings.push('scanned_pdf');
+  const security = pdfAnalysis.security;
+  if (security?.hasActiveContent)
+    (opts.blockPdfActiveContent ? globalIssues : globalWarnings).push('pdf_active_content');
+  if (security?.hasAttachments)
+    (opts.blockPdfAttachments ? globalIssues : globalWarnings).push('pdf_attachments');
 
   const allPageIssues = pages.flatMap((p) => p.issues);
   const allPageWarnings = pages.flatMap((p) => p.warnings ?? []);
@@ -131,6 +166,18 @@ export async function validatePDFQuality(
     { corruptedPages: corrupted },
   );
 
+  const securityFlagged = [
+    security?.hasActiveContent && opts.blockPdfActiveContent,
+    security?.hasAttachments && opts.blockPdfAttachments,
+  ].some(Boolean);
+  const securityFindings = [
+    security?.hasActiveContent && 'active content',
+    security?.hasAttachments && 'embedded files',
+  ].filter(Boolean);
+
+  const blurType = pdfAnalysis.pageResults?.find((r) => r.isBlurry && r.metrics.blurClassification)
+    ?.metrics.blurClassification?.type;
+
   const pageAvg = pages.length ? pages.reduce((s, p) => s + p.score, 0) / pages.length : 0;
   const overallScore = score(
     [
@@ -157,11 +204,19 @@ export async function validatePDFQuality(
       scanned: scannedCheck,
       corruptedPages: corruptedCheck,
       sharpness: makeCheck(
-        pages.every((p) => !p.issues.includes('blurry')),
-        pages.some((p) => p.issues.includes('blurry')) ? 50 : 100,
+        pages.every(
+          (p) => !['blurry', 'partial_blur'].some((c) => p.issues.includes(c as IssueCode)),
+        ),
+        pages.some((p) => p.issues.includes('blurry'))
+          ? 50
+          : pages.some((p) => p.issues.includes('partial_blur'))
+            ? 65
+            : 100,
         pages.some((p) => p.issues.includes('blurry'))
           ? 'One or more pages are blurry.'
-          : 'Page sharpness looks good.',
+          : pages.some((p) => p.issues.includes('partial_blur'))
+            ? 'One or more pages are partly blurry.'
+            : 'Page sharpness looks good.',
       ),
       brightness: makeCheck(
         pages.every(
@@ -216,8 +271,27 @@ export async function validatePDFQuality(
           ? 'One or more pages have very little extractable text.'
           : 'Text density looks acceptable.',
       ),
+      ...(security && {
+        pdfSecurity: makeCheck(
+          !securityFlagged,
+          securityFlagged ? 0 : securityFindings.length ? 80 : 100,
+          securityFindings.length
+            ? `PDF contains ${securityFindings.join(' and ')}${securityFlagged ? '.' : ' (informational).'}`
+            : 'No scripts, actions or embedded files found.',
+          { ...security },
+        ),
+      }),
+      ...(pages.some((p) => p.checks.scanResolution) && {
+        scanResolution: makeCheck(
+          pages.every((p) => !p.issues.includes('low_scan_dpi')),
+          pages.some((p) => p.issues.includes('low_scan_dpi')) ? 55 : 100,
+          pages.some((p) => p.issues.includes('low_scan_dpi'))
+            ? 'One or more pages were scanned at too low a resolution.'
+            : 'Scan resolution looks good.',
+        ),
+      }),
     },
-    recommendations: recommendationsFor([...uniqueBlocking, ...uniqueWarnings]),
+    recommendations: recommendationsFor([...uniqueBlocking, ...uniqueWarnings], { blurType }),
     issues: uniqueBlocking,
     warnings: uniqueWarnings,
     pages,
@@ -235,3 +309,46 @@ export async function validatePDFQuality(
     },
   };
 }
+
+export async function* validatePDFPages(
+  file: File,
+  options: UploadValidationOptions = {},
+  config: BlurDetectionConfig = {},
+): AsyncGenerator<PDFPageValidationResult | QualityValidationResult> {
+  const queue: PDFPageValidationResult[] = [];
+  const controller = new AbortController();
+  const forwardAbort = () => controller.abort(options.signal?.reason);
+  if (options.signal?.aborted) forwardAbort();
+  else options.signal?.addEventListener('abort', forwardAbort, { once: true });
+
+  let wake: (() => void) | undefined;
+  let outcome: { result: QualityValidationResult } | { error: unknown } | undefined;
+  validatePDFQuality(file, { ...options, signal: controller.signal }, config, (page) => {
+    queue.push(page);
+    wake?.();
+  }).then(
+    (result) => {
+      outcome = { result };
+      wake?.();
+    },
+    (error) => {
+      outcome = { error };
+      wake?.();
+    },
+  );
+
+  try {
+    while (true) {
+      const page = queue.shift();
+      if (page) yield page;
+      else if (outcome) break;
+      else await new Promise<void>((resolve) => (wake = resolve));
+    }
+    if ('error' in outcome) throw outcome.error;
+    yield outcome.result;
+  } finally {
+    // Stops the remaining page renders when the consumer breaks out of the loop early.
+    options.signal?.removeEventListener('abort', forwardAbort);
+    if (!outcome) controller.abort();
+  }
+}
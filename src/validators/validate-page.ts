@@ -62,6 +62,20 @@ export function validatePage(
   );
   if (!resOk) issues.push('low_resolution');
 
+  if (m.scanDpi !== undefined) {
+    const minScanDpi = options.minScanDpi ?? 150;
+    const scanOk = m.scanDpi >= minScanDpi;
+    checks.scanResolution = makeCheck(
+      scanOk,
+      scanOk ? 100 : (m.scanDpi / minScanDpi) * 100,
+      scanOk
+        ? 'Scan resolution is acceptable.'
+        : `Page ${pageNumber} was scanned at ${Math.round(m.scanDpi)} DPI.`,
+      { scanDpi: m.scanDpi, minScanDpi, embeddedImages: m.embeddedImages },
+    );
+    if (!scanOk) issues.push('low_scan_dpi');
+  }
+
   const hasReadable =
     m.nonWhiteRatio >= READABLE_CONTENT_MIN_RATIO &&
     m.minLuminance < READABLE_CONTENT_MAX_BRIGHTNESS &&
@@ -181,17 +195,24 @@ export function validatePage(
   );
   if (!orientOk && exp) issues.push('rotated');
 
+  const partialBlur = !pageResult.isBlurry && !!pageResult.metrics.sharpnessMap?.isPartiallyBlurry;
   checks.sharpness = makeCheck(
-    !pageResult.isBlurry,
-    pageResult.isBlurry ? 45 : 100,
-    pageResult.isBlurry ? `Page ${pageNumber} is blurry.` : 'Sharpness looks good.',
+    !pageResult.isBlurry && !partialBlur,
+    pageResult.isBlurry ? 45 : partialBlur ? 65 : 100,
+    pageResult.isBlurry
+      ? `Page ${pageNumber} is blurry.`
+      : partialBlur
+        ? `Part of page ${pageNumber} is blurry.`
+        : 'Sharpness looks good.',
     {
       confidence: pageResult.confidence,
       edgeWidthPerc: pageResult.metrics.edgeAnalysis?.avgEdgeWidthPerc,
       textSharpnessScore: pageResult.metrics.textSharpness?.textSharpnessScore,
+      blurryTileRatio: pageResult.metrics.sharpnessMap?.blurryRatio,
     },
   );
   if (pageResult.isBlurry) issues.push('blurry');
+  if (partialBlur) issues.push('partial_blur');
 
   const ca = pageResult.metrics.contentAnalysis;
   const hasLowText = ca?.hasLowTextContent ?? false;
@@ -220,12 +241,14 @@ export function validatePage(
 
   const parts: string[] = [];
   if (pageResult.isBlurry) parts.push('is blurry');
+  if (uniqueIssues.includes('partial_blur')) parts.push('is partly blurry');
   for (const code of [
     'too_dark',
     'too_bright',
     'glare',
     'low_contrast',
     'low_resolution',
+    'low_scan_dpi',
   ] as IssueCode[])
     if (uniqueIssues.includes(code)) parts.push(`has ${code.replace(/_/g, ' ')}`);
   if (uniqueIssues.includes('rotated')) parts.push('appears rotated');
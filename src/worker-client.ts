@@ -0,0 +1,277 @@
+import { BlurDetector } from './blur-detector';
+import { assertPixelLimit, decodeImagePages, getImageDataFromInput } from './image-utils';
+import { runtimeAdapters } from './runtime';
+import { validateImageQuality } from './validators/image-quality-validator';
+import { readImageDimensions } from './validators/file-validator';
+import { DEFAULT_MAX_PIXELS, WORKER_READY_TIMEOUT_MS, WORKER_TASK_TIMEOUT_MS } from './constants';
+import { AnalysisAbortedError, PDFPasswordError, throwIfAborted } from './errors';
+import type {
+  AbortOptions,
+  BlurAnalysisResult,
+  BlurDetectionConfig,
+  ImageInput,
+  PDFPerformanceOptions,
+  QualityValidationResult,
+  UploadValidationOptions,
+} from './types';
+
+export type WorkerTask = 'validateImage' | 'analyzeImage' | 'analyzeRenderedPage' | 'textSharpness';
+
+export interface WorkerRequest {
+  id: number;
+  task: WorkerTask;
+  payload: any;
+}
+
+export interface WorkerError {
+  name: string;
+  message: string;
+  reason?: unknown;
+}
+
+export interface WorkerResponse {
+  id: number;
+  result?: unknown;
+  error?: WorkerError;
+}
+
+// Canvas elements, worker handles, abort signals, callbacks and module instances cannot be
+// structured-cloned.
+export function workerSafeConfig<T extends BlurDetectionConfig>(config: T): T {
+  const safe: T & PDFPerformanceOptions = { ...config };
+  delete safe.signal;
+  delete safe.onProgress;
+  delete safe.canvas;
+  delete safe.worker;
+  delete safe.pdfjsLib;
+  delete safe.openCvModule;
+  return safe;
+}
+
+// Errors cross the worker boundary as plain objects; the typed ones are rebuilt from name/reason.
+function rebuildError({ name, message, reason }: WorkerError): Error {
+  if (name === 'PDFPasswordError')
+    return new PDFPasswordError(reason as PDFPasswordError['reason']);
+  if (name === 'AbortError') return new AnalysisAbortedError(reason);
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
+
+function detachedCopy(input: ImageInput, imageData: ImageData): ImageData {
+  if (input !== imageData) return imageData;
+  return new ImageData(new Uint8ClampedArray(imageData.data), imageData.width, imageData.height);
+}
+
+export class WorkerClient {
+  private worker: Worker;
+  private nextId = 1;
+  private pending = new Map<
+    number,
+    { resolve: (value: any) => void; reject: (error: Error) => void }
+  >();
+  private ready: Promise<boolean>;
+  private workerDecodes = false;
+
+  constructor(worker: Worker) {
+    this.worker = worker;
+    this.ready = new Promise((resolve) => {
+      const timer = setTimeout(() => resolve(false), WORKER_READY_TIMEOUT_MS);
+      worker.addEventListener('message', (event: MessageEvent) => {
+        const data = event.data as WorkerResponse & { ready?: boolean; decodes?: boolean };
+        if (data?.ready) {
+          this.workerDecodes = data.decodes === true;
+          clearTimeout(timer);
+          resolve(true);
+          return;
+        }
+        const entry = this.pending.get(data?.id);
+        if (!entry) return;
+        this.pending.delete(data.id);
+        if (data.error !== undefined) entry.reject(rebuildError(data.error));
+        else entry.resolve(data.result);
+      });
+      worker.addEventListener('error', (event: Event) => {
+        clearTimeout(timer);
+        resolve(false);
+        const message = (event as ErrorEvent).message || 'Analysis worker failed';
+        for (const entry of this.pending.values()) entry.reject(new Error(message));
+        this.pending.clear();
+      });
+    });
+  }
+
+  available(): Promise<boolean> {
+    return this.ready;
+  }
+
+  async run<T>(
+    task: WorkerTask,
+    payload: Record<string, unknown>,
+    transfer: Transferable[],
+    fallback: () => Promise<T>,
+    signal?: AbortSignal,
+    timeoutMs = WORKER_TASK_TIMEOUT_MS,
+  ): Promise<T> {
+    if (!(await this.ready)) return fallback();
+    throwIfAborted(signal);
+    const id = this.nextId++;
+    return new Promise<T>((resolve, reject) => {
+      // The worker keeps running the task; an aborted or timed-out caller just stops waiting.
+      const settle = () => {
+        this.pending.delete(id);
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      };
+      const onAbort = () => {
+        settle();
+        reject(new AnalysisAbortedError(signal?.reason));
+      };
+      const timer = setTimeout(() => {
+        settle();
+        reject(new Error(`Analysis worker did not answer within ${timeoutMs} ms`));
+      }, timeoutMs);
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.pending.set(id, {
+        resolve: (value) => {
+          settle();
+          resolve(value);
+        },
+        reject: (error) => {
+          settle();
+          reject(error);
+        },
+      });
+      const request: WorkerRequest = { id, task, payload };
+      this.worker.postMessage(request, transfer);
+    });
+  }
+
+  // Blobs are posted as they are and decoded in the worker, unless decoders were configured on
+  // this thread with configureRuntime() or the worker lacks createImageBitmap and OffscreenCanvas.
+  private decodesInWorker(input: ImageInput): input is Blob {
+    const { decodeImage, imageDecoders } = runtimeAdapters();
+    return input instanceof Blob && this.workerDecodes && !decodeImage && !imageDecoders;
+  }
+
+  async validateImage(
+    input: ImageInput,
+    options: UploadValidationOptions = {},
+  ): Promise<QualityValidationResult> {
+    if (!(await this.ready)) return validateImageQuality(input, options);
+    throwIfAborted(options.signal);
+    // An oversized image goes straight to the validator's header check, which never decodes it.
+    const header = input instanceof Blob ? await readImageDimensions(input) : null;
+    if (header && header.width * header.height > (options.maxPixels ?? DEFAULT_MAX_PIXELS))
+      return validateImageQuality(input, options);
+    if (this.decodesInWorker(input))
+      return this.run(
+        'validateImage',
+        { file: input, options: workerSafeConfig(options) },
+        [],
+        () => validateImageQuality(input, options),
+        options.signal,
+        options.workerTimeoutMs,
+      );
+    // Multi-page images are validated here rather than posting every page to the worker.
+    const pages = input instanceof Blob ? await decodeImagePages(input, options.maxPixels) : null;
+    if (pages && pages.length > 1) return validateImageQuality(input, options, pages);
+    const page =
+      pages?.[0] ??
+      (await getImageDataFromInput(input, options.canvas, options.maxPixels).catch(() => null));
+    // The validator reports an undecodable format as an issue, or rethrows the decode error.
+    if (!page) return validateImageQuality(input, options);
+    const imageData = detachedCopy(input, page);
+    return this.run(
+      'validateImage',
+      {
+        file: input instanceof File ? input : undefined,
+        imageData,
+        options: workerSafeConfig(options),
+      },
+      [imageData.data.buffer],
+      () => validateImageQuality(input, options),
+      options.signal,
+      options.workerTimeoutMs,
+    );
+  }
+
+  async analyzeImage(
+    input: ImageInput,
+    config: BlurDetectionConfig = {},
+    options: AbortOptions = {},
+  ): Promise<BlurAnalysisResult> {
+    if (!(await this.ready)) return new BlurDetector(config).analyzeImage(input, options);
+    throwIfAborted(options.signal);
+    if (this.decodesInWorker(input)) {
+      await assertPixelLimit(input, config.maxPixels);
+      return this.run(
+        'analyzeImage',
+        { file: input, config: workerSafeConfig(config) },
+        [],
+        () => new BlurDetector(config).analyzeImage(input, options),
+        options.signal,
+        config.workerTimeoutMs,
+      );
+    }
+    const pages = input instanceof Blob ? await decodeImagePages(input, config.maxPixels) : null;
+    if (pages && pages.length > 1)
+      return new BlurDetector(config).analyzeImage(input, options, pages);
+    const imageData = detachedCopy(
+      input,
+      pages?.[0] ?? (await getImageDataFromInput(input, config.canvas, config.maxPixels)),
+    );
+    return this.run(
+      'analyzeImage',
+      { imageData, config: workerSafeConfig(config) },
+      [imageData.data.buffer],
+      () => new BlurDetector(config).analyzeImage(input, options),
+      options.signal,
+      config.workerTimeoutMs,
+    );
+  }
+
+  terminate(): void {
+    this.worker.terminate();
+    for (const entry of this.pending.values())
+      entry.reject(new Error('Analysis worker terminated'));
+    this.pending.clear();
+    this.ready = Promise.resolve(false);
+  }
+}
+
+function spawnWorker(url: string | URL): Worker {
+  const href = new URL(String(url), globalThis.location?.href).href;
+  if (typeof location !== 'undefined' && new URL(href).origin === location.origin)
+    return new Worker(href);
+  // Cross-origin scripts can only be started through a same-origin shim.
+  const shim = new Blob([`importScripts(${JSON.stringify(href)});`], {
+    type: 'application/javascript',
+  });
+  return new Worker(URL.createObjectURL(shim));
+}
+
+// `url` is a self-hosted copy of lib/worker.js; there is no default, so no unpinned script runs.
+export function createWorkerClient(url: string | URL): WorkerClient | null {
+  if (typeof Worker === 'undefined') return null;
+  try {
+    return new WorkerClient(spawnWorker(url));
+  } catch {
+    return null;
+  }
+}
+
+const sharedClients = new Map<string, WorkerClient>();
+
+export function resolveWorkerClient(option: BlurDetectionConfig['worker']): WorkerClient | null {
+  if (!option) return null;
+  if (option instanceof WorkerClient) return option;
+  if (typeof option !== 'string' && !(option instanceof URL))
+    throw new Error('The worker option needs the URL of a self-hosted lib/worker.js');
+  const url = String(option);
+  const cached = sharedClients.get(url);
+  if (cached) return cached;
+  const client = createWorkerClient(url);
+  if (client) sharedClients.set(url, client);
+  return client;
+}
@@ -0,0 +1,63 @@
+// Worker entry (built to lib/worker.js). Runs the pixel analysis posted by WorkerClient.
+
+import { BlurDetector } from './blur-detector';
+import { PDFAnalyzer } from './pdf-analyzer';
+import { validateImageQuality } from './validators/image-quality-validator';
+import type { WorkerRequest, WorkerResponse } from './worker-client';
+
+async function runTask({ task, payload }: WorkerRequest): Promise<unknown> {
+  switch (task) {
+    case 'validateImage':
+      return validateImageQuality(
+        payload.file ?? payload.imageData,
+        payload.options,
+        payload.imageData,
+      );
+    case 'analyzeImage':
+      return new BlurDetector(payload.config).analyzeImage(payload.file ?? payload.imageData);
+    case 'analyzeRenderedPage':
+      return new PDFAnalyzer(payload.config).analyzeRenderedPage(
+        payload.imageData,
+        payload.pageNumber,
+        payload.rotation,
+      );
+    case 'textSharpness':
+      return new PDFAnalyzer(payload.config).calculateTextSharpness(payload.imageData);
+    default:
+      throw new Error(`Unknown worker task: ${task}`);
+  }
+}
+
+export async function handleWorkerRequest(request: WorkerRequest): Promise<WorkerResponse> {
+  try {
+    return { id: request.id, result: await runTask(request) };
+  } catch (error) {
+    if (!(error instanceof Error))
+      return { id: request.id, error: { name: 'Error', message: 'Unknown worker error' } };
+    // Only string reasons (e.g. PDFPasswordError's) are guaranteed to survive postMessage.
+    const reason = (error as { reason?: unknown }).reason;
+    return {
+      id: request.id,
+      error: {
+        name: error.name,
+        message: error.message,
+        reason: typeof reason === 'string' ? reason : undefined,
+      },
+    };
+  }
+}
+
+const scope = globalThis as unknown as {
+  importScripts?: unknown;
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage(message: unknown): void;
+};
+
+if (typeof scope.importScripts === 'function') {
+  scope.onmessage = async (event) => scope.postMessage(await handleWorkerRequest(event.data));
+  // Files are only posted here for decoding when this worker can decode them off the main thread.
+  scope.postMessage({
+    ready: true,
+    decodes: typeof createImageBitmap === 'function' && typeof OffscreenCanvas !== 'undefined',
+  });
+}